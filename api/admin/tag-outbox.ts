@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStaffIdentity, hasRole } from '../../lib/auth';
+import { addShopifyOrderTag } from '../../lib/shopify';
+import { getTagOutbox } from '../../lib/tag-outbox';
+import { withStore } from '../../lib/stores';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const identity = getStaffIdentity(req);
+
+  if (!hasRole(identity, 'admin')) {
+    return res.status(identity ? 403 : 401).json({
+      error: identity ? 'Forbidden' : 'Unauthorized',
+      message: 'This endpoint requires the admin role'
+    });
+  }
+
+  const outbox = getTagOutbox();
+
+  try {
+    // GET - Inspect pending retries or the dead-letter list (?state=dead)
+    if (req.method === 'GET') {
+      const state = req.query.state === 'dead' ? 'dead' : 'pending';
+      const entries = await outbox.list(state);
+
+      return res.status(200).json({
+        success: true,
+        state,
+        count: entries.length,
+        entries
+      });
+    }
+
+    // POST - Replay a dead-lettered entry: { id, process_now? }
+    if (req.method === 'POST') {
+      const { id, process_now } = req.body || {};
+
+      if (!id) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          message: 'id is required'
+        });
+      }
+
+      const entry = await outbox.replay(String(id));
+
+      if (!entry) {
+        return res.status(404).json({
+          error: 'Entry not found',
+          message: `No outbox entry with id ${id}`
+        });
+      }
+
+      // Just this entry; the rest of the queue is the cron's job
+      const summary = process_now ? await outbox.process(addShopifyOrderTag, { ids: [entry.id] }) : null;
+
+      return res.status(200).json({
+        success: true,
+        entry: (await outbox.get(entry.id)) ?? { ...entry, state: 'delivered' },
+        ...(summary ? { run: summary } : {})
+      });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+
+  } catch (error) {
+    console.error('[TAG OUTBOX] ❌ Admin request failed:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStaffIdentity, hasRole } from '../../lib/auth';
+import {
+  getWebhookSubscriptionStore,
+  maskSubscription,
+  validateSubscriptionInput,
+  type SubscriptionInput
+} from '../../lib/webhook-subscriptions';
+import { withStore } from '../../lib/stores';
+
+function toInput(body: any): SubscriptionInput {
+  const { url, events, statuses, description, active } = body || {};
+  return {
+    ...(url !== undefined ? { url: String(url) } : {}),
+    ...(events !== undefined ? { events } : {}),
+    ...(statuses !== undefined ? { statuses } : {}),
+    ...(description !== undefined ? { description: String(description) } : {}),
+    ...(active !== undefined ? { active: Boolean(active) } : {})
+  };
+}
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const identity = getStaffIdentity(req);
+
+  if (!hasRole(identity, 'admin')) {
+    return res.status(identity ? 403 : 401).json({
+      error: identity ? 'Forbidden' : 'Unauthorized',
+      message: 'This endpoint requires the admin role'
+    });
+  }
+
+  const subscriptions = getWebhookSubscriptionStore();
+  const id = req.query.id as string | undefined;
+
+  try {
+    // GET - List subscriptions; secrets are only ever shown on create/rotate
+    if (req.method === 'GET') {
+      const all = await subscriptions.list();
+
+      return res.status(200).json({
+        success: true,
+        count: all.length,
+        subscriptions: all.map(maskSubscription)
+      });
+    }
+
+    // POST - Create: { url, events?, statuses?, description?, active? }
+    if (req.method === 'POST') {
+      const input = toInput(req.body);
+      const invalid = validateSubscriptionInput(input);
+
+      if (invalid) {
+        return res.status(400).json({ error: 'Invalid subscription', message: invalid });
+      }
+
+      const subscription = await subscriptions.create(input);
+      console.log(`[WEBHOOKS] Created subscription ${subscription.id} -> ${subscription.url}`);
+
+      return res.status(201).json({ success: true, subscription });
+    }
+
+    if (!id) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        message: 'id is required'
+      });
+    }
+
+    // PUT - Update ?id=; send rotate_secret: true for a new signing secret
+    if (req.method === 'PUT') {
+      const input = toInput(req.body);
+      const invalid = validateSubscriptionInput(input, { partial: true });
+
+      if (invalid) {
+        return res.status(400).json({ error: 'Invalid subscription', message: invalid });
+      }
+
+      const rotateSecret = Boolean(req.body?.rotate_secret);
+      const subscription = await subscriptions.update(id, input, { rotateSecret });
+
+      if (!subscription) {
+        return res.status(404).json({
+          error: 'Subscription not found',
+          message: `No webhook subscription with id ${id}`
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        subscription: rotateSecret ? subscription : maskSubscription(subscription)
+      });
+    }
+
+    // DELETE - Remove ?id=; deliveries still pending to it will fail
+    if (req.method === 'DELETE') {
+      const deleted = await subscriptions.delete(id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Subscription not found',
+          message: `No webhook subscription with id ${id}`
+        });
+      }
+
+      console.log(`[WEBHOOKS] 🗑️ Deleted subscription ${id}`);
+      return res.status(200).json({ success: true, id });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+
+  } catch (error) {
+    console.error('[WEBHOOKS] ❌ Admin request failed:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
@@ -0,0 +1,94 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStaffIdentity, hasRole } from '../../../lib/auth';
+import { getWebhookDeliveryQueue } from '../../../lib/webhook-deliveries';
+import { withStore } from '../../../lib/stores';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const identity = getStaffIdentity(req);
+
+  if (!hasRole(identity, 'admin')) {
+    return res.status(identity ? 403 : 401).json({
+      error: identity ? 'Forbidden' : 'Unauthorized',
+      message: 'This endpoint requires the admin role'
+    });
+  }
+
+  const queue = getWebhookDeliveryQueue();
+
+  try {
+    // GET - Delivery log for ?subscription_id=, newest first (&limit=)
+    if (req.method === 'GET') {
+      const subscriptionId = req.query.subscription_id as string | undefined;
+
+      if (!subscriptionId) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          message: 'subscription_id is required'
+        });
+      }
+
+      const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return res.status(400).json({
+          error: 'Invalid limit',
+          message: `limit must be an integer between 1 and ${MAX_LIMIT}`
+        });
+      }
+
+      const deliveries = await queue.log(subscriptionId, limit);
+
+      return res.status(200).json({
+        success: true,
+        subscription_id: subscriptionId,
+        count: deliveries.length,
+        deliveries
+      });
+    }
+
+    // POST - Redeliver now: { id }
+    if (req.method === 'POST') {
+      const { id } = req.body || {};
+
+      if (!id) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          message: 'id is required'
+        });
+      }
+
+      const delivery = await queue.redeliver(String(id));
+
+      if (!delivery) {
+        return res.status(404).json({
+          error: 'Delivery not found',
+          message: `No webhook delivery with id ${id}`
+        });
+      }
+
+      return res.status(200).json({ success: delivery.state === 'delivered', delivery });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+
+  } catch (error) {
+    console.error('[WEBHOOKS] ❌ Delivery request failed:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
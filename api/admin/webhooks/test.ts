@@ -0,0 +1,75 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import { getStaffIdentity, hasRole } from '../../../lib/auth';
+import { getWebhookDeliveryQueue } from '../../../lib/webhook-deliveries';
+import { getWebhookSubscriptionStore } from '../../../lib/webhook-subscriptions';
+import { withStore } from '../../../lib/stores';
+
+// POST { id } - Sends a `webhook.test` event to one subscription and reports
+// how the receiver answered. Filters and the active flag are ignored.
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = getStaffIdentity(req);
+
+  if (!hasRole(identity, 'admin')) {
+    return res.status(identity ? 403 : 401).json({
+      error: identity ? 'Forbidden' : 'Unauthorized',
+      message: 'This endpoint requires the admin role'
+    });
+  }
+
+  const { id } = req.body || {};
+
+  if (!id) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      message: 'id is required'
+    });
+  }
+
+  try {
+    const subscription = await getWebhookSubscriptionStore().get(String(id));
+
+    if (!subscription) {
+      return res.status(404).json({
+        error: 'Subscription not found',
+        message: `No webhook subscription with id ${id}`
+      });
+    }
+
+    const queue = getWebhookDeliveryQueue();
+    const queued = await queue.enqueue(subscription, {
+      id: randomUUID(),
+      type: 'webhook.test',
+      created_at: new Date().toISOString(),
+      data: { subscription_id: subscription.id, message: 'Test event from Bella order status' }
+    });
+    const delivery = await queue.attempt(queued);
+
+    return res.status(200).json({
+      success: delivery.state === 'delivered',
+      delivery
+    });
+
+  } catch (error) {
+    console.error('[WEBHOOKS] ❌ Test delivery failed:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
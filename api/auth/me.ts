@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStaffIdentity } from '../../lib/auth';
+import { getStores, summarizeStore } from '../../lib/stores';
+
+/**
+ * Tells the dashboard who its key belongs to, so it can hide what that role
+ * can't do, and which stores it can switch between
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = getStaffIdentity(req);
+
+  if (!identity) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
+
+  return res.status(200).json({ success: true, ...identity, stores: getStores().map(summarizeStore) });
+}
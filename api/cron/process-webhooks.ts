@@ -0,0 +1,34 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isCronRequest } from '../../lib/auth';
+import { getWebhookDeliveryQueue } from '../../lib/webhook-deliveries';
+import { forEachStore, sumCounts } from '../../lib/stores';
+
+// Scheduled in vercel.json; retries webhook deliveries whose backoff has elapsed
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid CRON_SECRET bearer token or X-Admin-Key is required'
+    });
+  }
+
+  try {
+    // Every store has its own queue
+    const runs = await forEachStore(() => getWebhookDeliveryQueue().process());
+    const summary = sumCounts(runs.map(run => run.result));
+    console.log(`[WEBHOOKS] Run complete:`, summary);
+
+    return res.status(200).json({ success: true, ...summary, stores: runs.map(run => ({ shop: run.shop, ...run.result })) });
+
+  } catch (error) {
+    console.error('[WEBHOOKS] ❌ Error processing deliveries:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
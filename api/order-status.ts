@@ -1,283 +1,148 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface OrderStep {
-  id: string;
-  label: string;
-  status: 'completed' | 'in_progress' | 'pending';
-  clickable: boolean;
-  url: string | null;
-}
-
-interface Order {
-  order_number: string;
-  order_id: string;
-  current_status: string;
-  url_link?: string;
-  product_name?: string;
-  financial_status?: string;
-  fulfillment_status?: string;
-  total_price?: string;
-  created_at?: string;
-  customer_email?: string;
-  customer_name?: string;
-  line_items?: any[];
-  steps: OrderStep[];
-}
-
-interface OrderLinkData {
-  url_upload: string;
-  url_delivery: string;
-  url_revision: string;
-  current_status: string;
-  product_name?: string;
-}
-
-// ===== IN-MEMORY STORAGE =====
-// ⚠️ WARNING: Data will be lost on Vercel instance restart
-// For production, replace with database (PostgreSQL, MongoDB, etc.)
-let orderLinks: { [key: string]: OrderLinkData } = {};
-// ===== END STORAGE =====
-
-function generateSteps(
-  currentStatus: string,
-  urls: { upload: string; delivery: string; revision: string }
-): OrderStep[] {
-  const allSteps = [
-    'upload_photo',
-    'in_progress',
-    'check_delivery', 
-    'check_revision',
-    'order_complete'
-  ];
-
-  const statusIndex = allSteps.indexOf(currentStatus);
-  
-  return [
-    {
-      id: 'upload_photo',
-      label: 'Upload photo',
-      status: statusIndex === 0 ? 'in_progress' : (statusIndex > 0 ? 'completed' : 'pending'),
-      clickable: true,
-      url: urls.upload
-    },
-    {
-      id: 'in_progress',
-      label: 'In progress',
-      status: statusIndex === 1 ? 'in_progress' : (statusIndex > 1 ? 'completed' : 'pending'),
-      clickable: false,
-      url: null
-    },
-    {
-      id: 'check_delivery',
-      label: 'Check delivery',
-      status: statusIndex === 2 ? 'in_progress' : (statusIndex > 2 ? 'completed' : 'pending'),
-      clickable: true,
-      url: urls.delivery
-    },
-    {
-      id: 'check_revision',
-      label: 'Check revision',
-      status: statusIndex === 3 ? 'in_progress' : (statusIndex > 3 ? 'completed' : 'pending'),
-      clickable: true,
-      url: urls.revision
-    },
-    {
-      id: 'order_complete',
-      label: 'Order complete',
-      status: statusIndex === 4 ? 'in_progress' : (statusIndex > 4 ? 'completed' : 'pending'),
-      clickable: false,
-      url: null
-    }
-  ];
-}
-
-async function fetchShopifyOrder(orderNumber: string): Promise<any> {
-  const SHOPIFY_STORE = process.env.SHOPIFY_STORE;
-  const ACCESS_TOKEN = process.env.SHOPIFY_ACCESS_TOKEN;
-
-  if (!SHOPIFY_STORE || !ACCESS_TOKEN) {
+import type { Order } from '../lib/types';
+import { getOrderStore } from '../lib/order-store';
+import {
+  authenticateStatusUpdate,
+  getStaffIdentity,
+  hasRole,
+  isAdminRequest,
+  isDashboardRequest
+} from '../lib/auth';
+import { checkCustomerCredentials, checkCustomerEmail, localizeDenial, toPublicOrder } from '../lib/order-access';
+import { deletionEvent, getOrderHistoryStore } from '../lib/order-history';
+import { getHeader, readRawBody, sendCacheableJson } from '../lib/http';
+import { getIdempotencyStore } from '../lib/idempotency';
+import { localizeSteps, negotiateLocale, translate } from '../lib/i18n';
+import { dispatchOrderEvents } from '../lib/webhook-deliveries';
+import {
+  applyStatusUpdate,
+  buildOrder,
+  getShopifySnapshot,
+  parseOrderParam
+} from '../lib/order-service';
+import { resolvePayloadStore, switchStore, withStore } from '../lib/stores';
+
+/**
+ * Normalizes Riley's `event_timestamp` (ISO string or unix seconds) to an ISO
+ * string so events can be ordered by plain string comparison.
+ */
+function parseEventTimestamp(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
     return null;
   }
 
-  try {
-    const orderName = orderNumber.replace('#', '');
-    
-    const response = await fetch(
-      `https://${SHOPIFY_STORE}/admin/api/2024-01/orders.json?name=${orderName}&status=any&limit=1`,
-      {
-        headers: {
-          'X-Shopify-Access-Token': ACCESS_TOKEN,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      console.error('Shopify API error:', response.status);
-      return null;
-    }
-
-    const data = await response.json();
-    
-    if (data.orders && data.orders.length > 0) {
-      return data.orders[0];
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Error fetching from Shopify:', error);
-    return null;
-  }
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
 }
 
-async function addShopifyOrderTag(
-  orderNumber: string, 
-  tag: string
-): Promise<boolean> {
-  const SHOPIFY_STORE = process.env.SHOPIFY_STORE;
-  const ACCESS_TOKEN = process.env.SHOPIFY_ACCESS_TOKEN;
-
-  if (!SHOPIFY_STORE || !ACCESS_TOKEN) {
-    console.warn('Shopify credentials not configured for tagging');
-    return false;
-  }
-
-  try {
-    console.log(`[SHOPIFY TAG] Starting tag process for order ${orderNumber}`);
-    
-    // Find the order
-    const order = await fetchShopifyOrder(orderNumber);
-    
-    if (!order) {
-      console.warn(`[SHOPIFY TAG] Order ${orderNumber} not found in Shopify`);
-      return false;
-    }
-
-    console.log(`[SHOPIFY TAG] Found order ID: ${order.id}`);
-    
-    // Get existing tags
-    const existingTags = order.tags ? order.tags.split(', ').map(t => t.trim()) : [];
-    console.log(`[SHOPIFY TAG] Existing tags:`, existingTags);
-    
-    // Check if tag already exists
-    if (existingTags.includes(tag)) {
-      console.log(`[SHOPIFY TAG] Tag "${tag}" already exists on order ${orderNumber}`);
-      return true;
-    }
-    
-    // Add new tag
-    existingTags.push(tag);
-    const newTags = existingTags.join(', ');
-    
-    console.log(`[SHOPIFY TAG] New tags string:`, newTags);
-    
-    // Update order with new tag
-    const updateResponse = await fetch(
-      `https://${SHOPIFY_STORE}/admin/api/2024-01/orders/${order.id}.json`,
-      {
-        method: 'PUT',
-        headers: {
-          'X-Shopify-Access-Token': ACCESS_TOKEN,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          order: {
-            id: order.id,
-            tags: newTags
-          }
-        })
-      }
-    );
-
-    if (!updateResponse.ok) {
-      const errorText = await updateResponse.text();
-      console.error(`[SHOPIFY TAG] Failed to update order: ${updateResponse.status}`, errorText);
-      return false;
-    }
-
-    console.log(`[SHOPIFY TAG] ✅ Successfully added tag "${tag}" to order ${orderNumber}`);
-    console.log(`[SHOPIFY TAG] 🔔 Shopify Flow should be triggered now!`);
-    return true;
-
-  } catch (error) {
-    console.error('[SHOPIFY TAG] Error adding tag:', error);
-    return false;
+// Riley signatures are verified against the raw body, so parse it ourselves
+export const config = {
+  api: {
+    bodyParser: false
   }
-}
+};
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop, Idempotency-Key, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag, Content-Language');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const store = getOrderStore();
+
   // GET - Retrieve order status (Called by Shopify frontend)
   if (req.method === 'GET') {
-    const orderNumber = decodeURIComponent(req.query.order as string);
-    
+    const orderParam = req.query.order as string | undefined;
+    const isStaff = isDashboardRequest(req);
+
+    // No order given - list every tracked order (used by the dashboard)
+    if (!orderParam) {
+      if (!isStaff) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Listing orders requires X-Dashboard-Key or X-Admin-Key'
+        });
+      }
+
+      try {
+        const records = await store.list();
+        // Listing never calls Shopify; only webhook-cached fields are included
+        const orders: Order[] = records.map(record =>
+          buildOrder(record.order_number, record, record.shopify ?? null, record.url_delivery)
+        );
+
+        return res.status(200).json({
+          success: true,
+          count: orders.length,
+          orders
+        });
+      } catch (error) {
+        console.error('Error listing orders:', error);
+        return res.status(500).json({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    const orderNumber = parseOrderParam(orderParam);
+
     if (!orderNumber) {
-      return res.status(400).json({ 
-        error: 'Order number is required',
-        message: 'Please provide order parameter'
+      return res.status(400).json({
+        error: 'Invalid order number',
+        message: `${orderParam} is not a valid order number`
       });
     }
 
+    const email = req.query.email as string | undefined;
+    const token = req.query.token as string | undefined;
+    const locale = negotiateLocale(req.query.locale as string | undefined, getHeader(req, 'accept-language'));
+    res.setHeader('Content-Language', locale);
+
+    // Customers prove they own the order with its email or a signed link;
+    // staff see every order
+    const denied = isStaff ? null : checkCustomerCredentials(orderNumber, { email, token });
+    if (denied) {
+      const { error, message } = localizeDenial(denied, locale);
+      return res.status(denied.status).json({ error, message });
+    }
+
     try {
-      const linkData = orderLinks[orderNumber];
+      const linkData = await store.get(orderNumber);
       
       if (!linkData) {
         return res.status(404).json({
           error: 'Order not found',
-          message: `No tracking data available for order ${orderNumber}. Please wait for Riley to process this order.`,
+          message: translate(locale, 'order_not_found', { order_number: orderNumber }),
           order_number: orderNumber
         });
       }
       
-      const shopifyOrder = await fetchShopifyOrder(orderNumber);
-      
-      let order: Order;
-      
-      if (shopifyOrder) {
-        order = {
-          order_number: shopifyOrder.name,
-          order_id: shopifyOrder.id.toString(),
-          current_status: linkData.current_status,
-          url_link: linkData.url_delivery,
-          product_name: linkData.product_name || shopifyOrder.line_items?.[0]?.name,
-          financial_status: shopifyOrder.financial_status,
-          fulfillment_status: shopifyOrder.fulfillment_status,
-          total_price: shopifyOrder.total_price,
-          created_at: shopifyOrder.created_at,
-          customer_email: shopifyOrder.email,
-          customer_name: `${shopifyOrder.customer?.first_name || ''} ${shopifyOrder.customer?.last_name || ''}`.trim(),
-          line_items: shopifyOrder.line_items,
-          steps: []
-        };
-      } else {
-        order = {
-          order_number: orderNumber,
-          order_id: orderNumber.replace('#', ''),
-          current_status: linkData.current_status,
-          url_link: linkData.url_delivery,
-          product_name: linkData.product_name,
-          steps: []
-        };
-      }
+      const { shopify, status } = await getShopifySnapshot(orderNumber, linkData);
 
-      order.steps = generateSteps(
-        order.current_status,
-        {
-          upload: linkData.url_upload,
-          delivery: linkData.url_delivery,
-          revision: linkData.url_revision
+      const emailDenied = isStaff || token ? null : checkCustomerEmail(email!, { shopify, status });
+      if (emailDenied) {
+        if (emailDenied.status === 503) {
+          res.setHeader('Retry-After', '30');
         }
-      );
+        const { error, message } = localizeDenial(emailDenied, locale);
+        return res.status(emailDenied.status).json({ error, message });
+      }
 
-      return res.status(200).json(order);
+      const built = buildOrder(orderNumber, linkData, shopify, linkData.url_delivery);
+      const order = { ...built, steps: localizeSteps(built.steps, locale) };
+      const body = { ...(isStaff ? order : toPublicOrder(order)), shopify_status: status, locale };
+
+      // Storefronts poll this; let them revalidate cheaply, but don't let a
+      // response missing its Shopify fields stick around
+      const cacheControl = status === 'unavailable' ? 'no-store' : 'private, max-age=30';
+      res.setHeader('Vary', 'X-Admin-Key, X-Dashboard-Key, X-Bella-Shop, Accept-Language');
+      return sendCacheableJson(req, res, body, cacheControl);
       
     } catch (error) {
       console.error('Error in GET handler:', error);
@@ -288,22 +153,61 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
   }
 
-  // POST - Update order status (Called by Riley webhook)
+  // POST - Update order status (Called by Riley webhook or the dashboard)
   if (req.method === 'POST') {
+    // Signatures are computed over the exact bytes Riley sent
+    const rawBody = await readRawBody(req);
+    const auth = authenticateStatusUpdate(req, rawBody);
+
+    if (!auth.source) {
+      console.warn(`[POST] ❌ Rejected unauthenticated update: ${auth.message}`);
+      return res.status(auth.forbidden ? 403 : 401).json({
+        error: auth.forbidden ? 'Forbidden' : 'Unauthorized',
+        message: auth.message
+      });
+    }
+
+    let body: any;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid JSON',
+        message: 'Request body must be valid JSON'
+      });
+    }
+
+    // Riley's payload may name the shop instead of the query string or headers
+    const payloadStore = resolvePayloadStore(body);
+    if (payloadStore.error) {
+      return res.status(400).json({ error: 'Unknown shop', message: payloadStore.error });
+    }
+    if (payloadStore.store) {
+      switchStore(payloadStore.store);
+    }
+
     const { 
       order_number: rawOrderNumber, 
       current_status,
       url,          // Riley sends this
       url_link,     // Backward compatibility
-      product_name
-    } = req.body;
+      product_name,
+      product_id,   // Optional Shopify IDs used to pick the order's workflow
+      variant_id,
+      revision_round, // Optional explicit round for check_revision
+      force,        // Admin override for status corrections
+      event_id,     // Fallback for the Idempotency-Key header
+      event_timestamp // Orders events; required for Riley to move an order back a step
+    } = body;
     
     // Handle order number formatting
-    let order_number = rawOrderNumber ? decodeURIComponent(rawOrderNumber) : rawOrderNumber;
-    
-    // Auto-add # if not present (Riley sends "1002" not "#1002")
-    if (order_number && !order_number.startsWith('#')) {
-      order_number = '#' + order_number;
+    const order_number = rawOrderNumber ? parseOrderParam(String(rawOrderNumber)) : rawOrderNumber;
+
+    if (rawOrderNumber && !order_number) {
+      return res.status(400).json({
+        error: 'Invalid order number',
+        message: `${rawOrderNumber} is not a valid order number`
+      });
     }
 
     if (!order_number) {
@@ -313,9 +217,57 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    if (force && !isAdminRequest(req)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'force requires the admin role'
+      });
+    }
+
+    const eventAt = parseEventTimestamp(event_timestamp);
+    if (event_timestamp !== undefined && !eventAt) {
+      return res.status(400).json({
+        error: 'Invalid event_timestamp',
+        message: 'event_timestamp must be an ISO date or unix timestamp'
+      });
+    }
+
+    const idempotencyKey = getHeader(req, 'idempotency-key') || (event_id ? String(event_id) : undefined);
+    const idempotency = getIdempotencyStore();
+
+    // Record the outcome so retries get the same answer; server errors are
+    // forgotten so the retry can actually be processed
+    const respond = async (status: number, payload: unknown) => {
+      if (idempotencyKey) {
+        if (status >= 500) {
+          await idempotency.release(idempotencyKey);
+        } else {
+          await idempotency.complete(idempotencyKey, status, payload);
+        }
+      }
+      return res.status(status).json(payload);
+    };
+
     try {
+      if (idempotencyKey) {
+        const claim = await idempotency.claim(idempotencyKey);
+
+        if (!claim.claimed) {
+          if (claim.record?.state === 'completed') {
+            console.log(`[POST] ♻️ Duplicate delivery ${idempotencyKey} - replaying original response`);
+            res.setHeader('Idempotent-Replayed', 'true');
+            return res.status(claim.record.response_status ?? 200).json(claim.record.response_body);
+          }
+
+          return res.status(409).json({
+            error: 'Duplicate delivery',
+            message: `Event ${idempotencyKey} is already being processed`
+          });
+        }
+      }
+
       console.log(`\n========================================`);
-      console.log(`[POST] Received webhook from Riley`);
+      console.log(`[POST] Received update from ${auth.source}${auth.actor ? ` (${auth.actor})` : ''}`);
       console.log(`[POST] Raw order_number: ${rawOrderNumber}`);
       console.log(`[POST] Processed order_number: ${order_number}`);
       console.log(`[POST] Status: ${current_status}`);
@@ -323,130 +275,86 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       console.log(`[POST] URL value: ${url || url_link || 'N/A'}`);
       console.log(`========================================\n`);
 
-      // Use url or url_link (Riley compatibility)
-      const linkUrl = url || url_link;
-
-      // Create or update order entry
-      if (!orderLinks[order_number]) {
-        console.log(`[POST] Creating new order entry: ${order_number}`);
-        orderLinks[order_number] = {
-          url_upload: '',
-          url_delivery: '',
-          url_revision: '',
-          current_status: current_status || 'upload_photo',
-          product_name: product_name
-        };
-      }
+      const result = await applyStatusUpdate(
+        {
+          order_number,
+          current_status,
+          url: url || url_link, // Riley sends url, url_link is kept for compatibility
+          product_name,
+          product_id,
+          variant_id,
+          revision_round: revision_round !== undefined ? Number(revision_round) : undefined,
+          force: Boolean(force),
+          event_at: eventAt
+        },
+        { source: auth.source, actor: auth.actor }
+      );
 
-      // Update status
-      if (current_status) {
-        orderLinks[order_number].current_status = current_status;
-        console.log(`[POST] ✅ Updated status to: ${current_status}`);
-      }
+      return respond(result.status, result.body);
+      
+    } catch (error) {
+      console.error('[POST] ❌ Error processing webhook:', error);
+      return respond(500, {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 
-      // Update product name
-      if (product_name) {
-        orderLinks[order_number].product_name = product_name;
-        console.log(`[POST] ✅ Updated product name: ${product_name}`);
-      }
+  // DELETE - Remove a tracking record (admins only; its history is kept)
+  if (req.method === 'DELETE') {
+    const identity = getStaffIdentity(req);
 
-      // Update URL based on status
-      if (linkUrl && current_status) {
-        if (current_status === 'upload_photo') {
-          orderLinks[order_number].url_upload = linkUrl;
-          console.log(`[POST] ✅ Updated upload URL`);
-        } else if (current_status === 'check_delivery') {
-          orderLinks[order_number].url_delivery = linkUrl;
-          console.log(`[POST] ✅ Updated delivery URL`);
-        } else if (current_status === 'check_revision') {
-          orderLinks[order_number].url_revision = linkUrl;
-          console.log(`[POST] ✅ Updated revision URL`);
-        }
-      }
+    if (!hasRole(identity, 'admin')) {
+      return res.status(identity ? 403 : 401).json({
+        error: identity ? 'Forbidden' : 'Unauthorized',
+        message: 'Deleting orders requires the admin role'
+      });
+    }
 
-      // ===== TRIGGER SHOPIFY FLOW WHEN ORDER COMPLETE =====
-      if (current_status === 'order_complete') {
-        console.log(`\n🎯 [FLOW TRIGGER] Order ${order_number} is COMPLETE!`);
-        console.log(`🎯 [FLOW TRIGGER] Attempting to add Shopify tag...`);
-        
-        const tagSuccess = await addShopifyOrderTag(order_number, 'bella-order-complete');
-        
-        if (tagSuccess) {
-          console.log(`✅ [FLOW TRIGGER] SUCCESS! Tag added to Shopify order`);
-          console.log(`✅ [FLOW TRIGGER] Shopify Flow should trigger email now`);
-          console.log(`✅ [FLOW TRIGGER] Customer will receive completion email\n`);
-        } else {
-          console.warn(`⚠️ [FLOW TRIGGER] FAILED to add tag`);
-          console.warn(`⚠️ [FLOW TRIGGER] Shopify Flow will NOT trigger`);
-          console.warn(`⚠️ [FLOW TRIGGER] Check Shopify credentials and order number\n`);
-        }
-      }
+    const orderParam = req.query.order as string | undefined;
 
-      // Build response
-      const shopifyOrder = await fetchShopifyOrder(order_number);
-      const linkData = orderLinks[order_number];
-
-      // Determine which URL to return based on current status
-      let urlLinkForResponse: string;
-      if (linkData.current_status === 'upload_photo') {
-        urlLinkForResponse = linkData.url_upload;
-      } else if (linkData.current_status === 'check_delivery') {
-        urlLinkForResponse = linkData.url_delivery;
-      } else if (linkData.current_status === 'check_revision') {
-        urlLinkForResponse = linkData.url_revision;
-      } else {
-        urlLinkForResponse = linkData.url_delivery;
-      }
-      
-      let order: Order;
-      
-      if (shopifyOrder) {
-        order = {
-          order_number: shopifyOrder.name,
-          order_id: shopifyOrder.id.toString(),
-          current_status: linkData.current_status,
-          url_link: urlLinkForResponse,
-          product_name: linkData.product_name || shopifyOrder.line_items?.[0]?.name,
-          financial_status: shopifyOrder.financial_status,
-          fulfillment_status: shopifyOrder.fulfillment_status,
-          total_price: shopifyOrder.total_price,
-          created_at: shopifyOrder.created_at,
-          customer_email: shopifyOrder.email,
-          customer_name: `${shopifyOrder.customer?.first_name || ''} ${shopifyOrder.customer?.last_name || ''}`.trim(),
-          line_items: shopifyOrder.line_items,
-          steps: []
-        };
-      } else {
-        order = {
-          order_number: order_number,
-          order_id: order_number.replace('#', ''),
-          current_status: linkData.current_status,
-          url_link: urlLinkForResponse,
-          product_name: linkData.product_name,
-          steps: []
-        };
+    if (!orderParam) {
+      return res.status(400).json({
+        error: 'Order number is required',
+        message: 'Please provide order parameter'
+      });
+    }
+
+    const orderNumber = parseOrderParam(orderParam);
+
+    if (!orderNumber) {
+      return res.status(400).json({
+        error: 'Invalid order number',
+        message: `${orderParam} is not a valid order number`
+      });
+    }
+
+    try {
+      const existing = await store.get(orderNumber);
+
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Order not found',
+          message: `No tracking data available for order ${orderNumber}`,
+          order_number: orderNumber
+        });
       }
 
-      order.steps = generateSteps(
-        order.current_status,
-        {
-          upload: linkData.url_upload,
-          delivery: linkData.url_delivery,
-          revision: linkData.url_revision
-        }
-      );
+      await store.delete(orderNumber);
+      const events = [deletionEvent(orderNumber, existing, 'dashboard', identity!.name)];
+      await getOrderHistoryStore().append(events);
+      await dispatchOrderEvents(events, existing);
 
-      console.log(`[POST] ✅ Order ${order_number} webhook processed successfully\n`);
+      console.log(`[DELETE] 🗑️ Order ${orderNumber} deleted by ${identity!.name}`);
 
       return res.status(200).json({
         success: true,
-        message: 'Order status updated successfully',
-        shopify_tag_added: current_status === 'order_complete',
-        order: order
+        message: 'Order deleted',
+        order_number: orderNumber
       });
-      
     } catch (error) {
-      console.error('[POST] ❌ Error processing webhook:', error);
+      console.error('[DELETE] ❌ Error deleting order:', error);
       return res.status(500).json({
         error: 'Internal server error',
         message: error instanceof Error ? error.message : 'Unknown error'
@@ -456,6 +364,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   return res.status(405).json({ 
     error: 'Method not allowed',
-    message: 'Only GET and POST methods are supported'
+    message: 'Only GET, POST and DELETE methods are supported'
   });
-}
\ No newline at end of file
+}
+
+export default withStore(handler);
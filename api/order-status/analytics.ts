@@ -0,0 +1,89 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../../lib/auth';
+import { getOrderStore } from '../../lib/order-store';
+import { getOrderHistoryStore } from '../../lib/order-history';
+import { computeOperationsReport } from '../../lib/analytics';
+import { sendCacheableJson } from '../../lib/http';
+import { WORKFLOWS } from '../../lib/workflows';
+import { withStore } from '../../lib/stores';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Pipeline metrics for one workflow: `?from=&to=` (inclusive YYYY-MM-DD,
+ * default the last 30 days) and `?workflow=` (default `standard`).
+ */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isDashboardRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const to = (req.query.to as string | undefined) || today;
+  const from = (req.query.from as string | undefined)
+    || new Date(new Date(`${to}T00:00:00.000Z`).getTime() - (DEFAULT_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+    return res.status(400).json({
+      error: 'Invalid date range',
+      message: 'from and to must be dates in YYYY-MM-DD format'
+    });
+  }
+
+  const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+  if (days < 1 || days > MAX_DAYS) {
+    return res.status(400).json({
+      error: 'Invalid date range',
+      message: `from must not be after to, and the range may cover at most ${MAX_DAYS} days`
+    });
+  }
+
+  const workflowId = (req.query.workflow as string | undefined) || 'standard';
+  const workflow = WORKFLOWS.find(candidate => candidate.id === workflowId);
+
+  if (!workflow) {
+    return res.status(400).json({
+      error: 'Invalid workflow',
+      message: `Unknown workflow "${workflowId}". Expected one of: ${WORKFLOWS.map(candidate => candidate.id).join(', ')}`
+    });
+  }
+
+  try {
+    const history = getOrderHistoryStore();
+    const records = await getOrderStore().list();
+    const orders = await Promise.all(
+      records.map(async record => ({ record, events: await history.list(record.order_number) }))
+    );
+
+    const report = computeOperationsReport(orders, workflow, { from, to });
+    return sendCacheableJson(req, res, { success: true, ...report }, 'private, max-age=60');
+
+  } catch (error) {
+    console.error('Error computing analytics:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
@@ -0,0 +1,195 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateStatusUpdate, isAdminRequest } from '../../lib/auth';
+import { readRawBody } from '../../lib/http';
+import { applyStatusUpdate, normalizeOrderNumber } from '../../lib/order-service';
+import { resolvePayloadStore, switchStore, withStore } from '../../lib/stores';
+
+// Each order may cost a Shopify lookup, a tag write and a customer email
+const MAX_BULK_ORDERS = 50;
+// Stops taking on orders well before vercel.json's maxDuration (60s)
+const TIME_BUDGET_MS = 40 * 1000;
+
+interface BulkItemResult {
+  order_number: string;
+  success: boolean;
+  /** What POST /api/order-status would have answered for this order alone */
+  status: number;
+  current_status?: string;
+  shopify_tag?: unknown;
+  error?: string;
+  message?: string;
+}
+
+// Same authentication as the single endpoint, so parse the body ourselves
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Moves several orders to one status. `orders` holds order numbers, or
+ * `{ order_number, url }` objects to set each order's URL as well. Every
+ * order is applied on its own, so one rejected transition doesn't stop the
+ * rest; the response reports each outcome. Orders left when the time budget
+ * runs out are untouched and listed in `not_processed` to be sent again.
+ */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rawBody = await readRawBody(req);
+  const auth = authenticateStatusUpdate(req, rawBody);
+
+  if (!auth.source) {
+    return res.status(auth.forbidden ? 403 : 401).json({
+      error: auth.forbidden ? 'Forbidden' : 'Unauthorized',
+      message: auth.message
+    });
+  }
+
+  let body: any;
+  try {
+    body = rawBody ? JSON.parse(rawBody) : {};
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Invalid JSON',
+      message: 'Request body must be valid JSON'
+    });
+  }
+
+  const payloadStore = resolvePayloadStore(body);
+  if (payloadStore.error) {
+    return res.status(400).json({ error: 'Unknown shop', message: payloadStore.error });
+  }
+  if (payloadStore.store) {
+    switchStore(payloadStore.store);
+  }
+
+  const { current_status, orders, force } = body;
+
+  if (!current_status || !Array.isArray(orders) || orders.length === 0) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      message: 'current_status and a non-empty orders array are required'
+    });
+  }
+
+  if (orders.length > MAX_BULK_ORDERS) {
+    return res.status(400).json({
+      error: 'Too many orders',
+      message: `A bulk update can contain at most ${MAX_BULK_ORDERS} orders`
+    });
+  }
+
+  const items: { order_number: string; url?: string }[] = orders.map((entry: any) =>
+    typeof entry === 'object' && entry !== null
+      ? { order_number: String(entry.order_number ?? ''), url: entry.url || undefined }
+      : { order_number: String(entry ?? '') }
+  );
+
+  if (items.some(item => !item.order_number)) {
+    return res.status(400).json({
+      error: 'Invalid orders',
+      message: 'Every entry needs an order_number'
+    });
+  }
+
+  if (force && !isAdminRequest(req)) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'force requires the admin role'
+    });
+  }
+
+  console.log(`[BULK] ${items.length} orders -> ${current_status} from ${auth.source}${auth.actor ? ` (${auth.actor})` : ''}`);
+
+  // Sequential on purpose: keeps Shopify calls inside the rate limit and
+  // history in the order the operator listed the orders
+  const results: BulkItemResult[] = [];
+  const notProcessed: string[] = [];
+  const seen = new Set<string>();
+  const startedAt = Date.now();
+
+  for (const item of items) {
+    const orderNumber = normalizeOrderNumber(item.order_number);
+
+    if (seen.has(orderNumber)) {
+      continue;
+    }
+    seen.add(orderNumber);
+
+    if (Date.now() - startedAt > TIME_BUDGET_MS) {
+      notProcessed.push(orderNumber);
+      continue;
+    }
+
+    try {
+      const result = await applyStatusUpdate(
+        {
+          order_number: orderNumber,
+          current_status,
+          url: item.url,
+          force: Boolean(force)
+        },
+        { source: auth.source, actor: auth.actor },
+        // Receivers can be slow; the webhook cron delivers these instead
+        { deliverWebhooksNow: false }
+      );
+
+      results.push(
+        result.status < 300
+          ? {
+              order_number: orderNumber,
+              success: true,
+              status: result.status,
+              current_status: result.body.order?.current_status,
+              ...(result.body.shopify_tag ? { shopify_tag: result.body.shopify_tag } : {})
+            }
+          : {
+              order_number: orderNumber,
+              success: false,
+              status: result.status,
+              error: result.body.error,
+              message: result.body.message
+            }
+      );
+    } catch (error) {
+      console.error(`[BULK] ❌ Error updating ${orderNumber}:`, error);
+      results.push({
+        order_number: orderNumber,
+        success: false,
+        status: 500,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+
+  if (notProcessed.length > 0) {
+    console.warn(`[BULK] ⏳ Out of time, ${notProcessed.length} orders not processed`);
+  }
+
+  return res.status(200).json({
+    success: succeeded === results.length && notProcessed.length === 0,
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+    not_processed: notProcessed
+  });
+}
+
+export default withStore(handler);
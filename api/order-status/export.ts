@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../../lib/auth';
+import { getOrderStore } from '../../lib/order-store';
+import { ordersToCsv } from '../../lib/order-csv';
+import { withStore } from '../../lib/stores';
+
+/** Every tracking record as CSV, in the column layout the import endpoint reads */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isDashboardRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
+
+  try {
+    const records = await getOrderStore().list();
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="orders-${date}.csv"`);
+    return res.status(200).send(ordersToCsv(records));
+
+  } catch (error) {
+    console.error('Error exporting orders:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
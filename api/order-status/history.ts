@@ -0,0 +1,80 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../../lib/auth';
+import { getOrderStore } from '../../lib/order-store';
+import { getOrderHistoryStore } from '../../lib/order-history';
+import { parseOrderParam } from '../../lib/order-service';
+import { withStore } from '../../lib/stores';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // The trail holds every URL and staff name the order has seen
+  if (!isDashboardRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
+
+  const orderParam = req.query.order as string | undefined;
+
+  if (!orderParam) {
+    return res.status(400).json({
+      error: 'Order number is required',
+      message: 'Please provide order parameter'
+    });
+  }
+
+  const orderNumber = parseOrderParam(orderParam);
+
+  if (!orderNumber) {
+    return res.status(400).json({
+      error: 'Invalid order number',
+      message: `${orderParam} is not a valid order number`
+    });
+  }
+
+  try {
+    const [linkData, events] = await Promise.all([
+      getOrderStore().get(orderNumber),
+      getOrderHistoryStore().list(orderNumber)
+    ]);
+
+    // History outlives deleted records, so only 404 when there is neither
+    if (!linkData && events.length === 0) {
+      return res.status(404).json({
+        error: 'Order not found',
+        message: `No history available for order ${orderNumber}`,
+        order_number: orderNumber
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      order_number: orderNumber,
+      current_status: linkData?.current_status ?? null,
+      count: events.length,
+      events
+    });
+
+  } catch (error) {
+    console.error('Error loading order history:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
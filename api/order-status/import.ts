@@ -0,0 +1,98 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStaffIdentity, hasRole } from '../../lib/auth';
+import { readRawBody } from '../../lib/http';
+import { getOrderStore } from '../../lib/order-store';
+import { applyOrderImport, planOrderImport } from '../../lib/order-csv';
+import { withStore } from '../../lib/stores';
+
+// The body is the CSV file itself, not JSON
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Upserts tracking records from a CSV in the export's column layout.
+ * `?dry_run=1` returns the row-by-row plan without writing; otherwise the
+ * whole file is rejected if any row is invalid, so imports never half-apply.
+ * Customers get their step emails as with any status update; `?notify=0`
+ * skips them, and the response counts what was sent.
+ */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = getStaffIdentity(req);
+
+  if (!hasRole(identity, 'operator')) {
+    return res.status(identity ? 403 : 401).json({
+      error: identity ? 'Forbidden' : 'Unauthorized',
+      message: 'Importing orders requires the operator role'
+    });
+  }
+
+  const dryRun = req.query.dry_run === '1' || req.query.dry_run === 'true';
+  const force = req.query.force === '1' || req.query.force === 'true';
+  const notify = !(req.query.notify === '0' || req.query.notify === 'false');
+
+  if (force && !hasRole(identity, 'admin')) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'force requires the admin role'
+    });
+  }
+
+  try {
+    const csv = await readRawBody(req);
+    const store = getOrderStore();
+    const plan = await planOrderImport(csv, store, { force });
+    const body = {
+      success: plan.valid,
+      dry_run: dryRun,
+      errors: plan.errors,
+      summary: plan.summary,
+      rows: plan.rows
+    };
+
+    if (!plan.valid) {
+      return res.status(422).json({
+        ...body,
+        error: 'Invalid import',
+        message: plan.errors[0] ?? `Rows with errors: ${plan.summary.error}. Nothing was imported`
+      });
+    }
+
+    if (!dryRun) {
+      const notifications = await applyOrderImport(
+        plan,
+        store,
+        { source: 'dashboard', actor: identity!.name },
+        { force, notify }
+      );
+      console.log(`[IMPORT] ✅ ${identity!.name} imported ${plan.writes.length} orders`);
+      return res.status(200).json({ ...body, notify, notifications });
+    }
+
+    return res.status(200).json({ ...body, notify });
+
+  } catch (error) {
+    console.error('[IMPORT] ❌ Error importing orders:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
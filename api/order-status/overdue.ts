@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../../lib/auth';
+import { getOrderStore } from '../../lib/order-store';
+import { SLA_WARNING_RATIO, getSlaStatus, getStageAges } from '../../lib/sla';
+import { getStep, getWorkflow } from '../../lib/workflows';
+import { withStore } from '../../lib/stores';
+
+/**
+ * Orders past or nearing the turnaround target of the status they're in,
+ * most overdue first. `?state=overdue` drops the ones only approaching it;
+ * `?warning_ratio=` (0-1) moves the point where an order starts approaching.
+ */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isDashboardRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
+
+  const onlyOverdue = req.query.state === 'overdue';
+  const warningRatio = req.query.warning_ratio !== undefined ? Number(req.query.warning_ratio) : SLA_WARNING_RATIO;
+
+  if (!(warningRatio > 0 && warningRatio <= 1)) {
+    return res.status(400).json({
+      error: 'Invalid warning_ratio',
+      message: 'warning_ratio must be a number greater than 0 and at most 1'
+    });
+  }
+
+  try {
+    const records = await getOrderStore().list();
+    const now = Date.now();
+
+    const orders = records
+      .map(record => {
+        const workflow = getWorkflow(record.workflow_id);
+        const step = getStep(workflow, record.current_status);
+        const sla = getSlaStatus(step, record.status_timestamps?.[record.current_status], { now, warningRatio });
+
+        if (!sla || sla.state === 'ok' || (onlyOverdue && sla.state !== 'overdue')) {
+          return null;
+        }
+
+        const { status, ...timing } = sla;
+        return {
+          order_number: record.order_number,
+          workflow_id: workflow.id,
+          product_name: record.product_name,
+          current_status: status,
+          status_label: step!.label,
+          ...timing,
+          stages: getStageAges(workflow, record.status_timestamps, now)
+        };
+      })
+      .filter((order): order is NonNullable<typeof order> => order !== null)
+      .sort((a, b) => a.remaining_hours - b.remaining_hours);
+
+    return res.status(200).json({
+      success: true,
+      generated_at: new Date(now).toISOString(),
+      warning_ratio: warningRatio,
+      count: orders.length,
+      overdue: orders.filter(order => order.state === 'overdue').length,
+      orders
+    });
+
+  } catch (error) {
+    console.error('Error listing overdue orders:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
@@ -0,0 +1,177 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../../lib/auth';
+import { getHeader } from '../../lib/http';
+import { checkCustomerCredentials, checkCustomerEmail, localizeDenial, toPublicOrder } from '../../lib/order-access';
+import { getOrderHistoryStore, type FeedEntry } from '../../lib/order-history';
+import { buildOrder, getShopifySnapshot, parseOrderParam } from '../../lib/order-service';
+import { getOrderStore } from '../../lib/order-store';
+import { localizeSteps, negotiateLocale, translate } from '../../lib/i18n';
+import { withStore } from '../../lib/stores';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Serverless functions are cut off after a while; end the response cleanly
+// before that and let the client reconnect with Last-Event-ID
+const DEFAULT_MAX_DURATION_SECONDS = 25;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Server-Sent Events for tracking changes. Staff (`X-Dashboard-Key` or
+ * `X-Admin-Key`) may follow every order; customers follow one `?order=` with
+ * the same `email`/`token` proof as the GET lookup, which also works from a
+ * plain EventSource.
+ *
+ * Each change arrives as an `order` event carrying the updated order (redacted
+ * for customers) or an `order_deleted` event. Event IDs are feed sequence
+ * numbers, so a reconnect resumes where the last response stopped.
+ */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop, Last-Event-ID');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const isStaff = isDashboardRequest(req);
+  const orderParam = req.query.order as string | undefined;
+  const orderNumber = orderParam ? parseOrderParam(orderParam) : null;
+  const email = req.query.email as string | undefined;
+  const token = req.query.token as string | undefined;
+  // EventSource can't set headers, so `?locale=` matters more here than on GET
+  const locale = negotiateLocale(req.query.locale as string | undefined, getHeader(req, 'accept-language'));
+
+  // Otherwise staff would fall through to streaming every order
+  if (orderParam && !orderNumber) {
+    return res.status(400).json({
+      error: 'Invalid order number',
+      message: `${orderParam} is not a valid order number`
+    });
+  }
+
+  if (!isStaff) {
+    if (!orderNumber) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Streaming every order requires X-Dashboard-Key or X-Admin-Key'
+      });
+    }
+
+    const denied = checkCustomerCredentials(orderNumber, { email, token });
+    if (denied) {
+      const { error, message } = localizeDenial(denied, locale);
+      return res.status(denied.status).json({ error, message });
+    }
+  }
+
+  const store = getOrderStore();
+  const history = getOrderHistoryStore();
+  const lastEventId = Number(getHeader(req, 'last-event-id') ?? req.query.last_event_id);
+  let cursor: number;
+
+  try {
+    if (!isStaff && !token) {
+      const linkData = await store.get(orderNumber!);
+      if (!linkData) {
+        return res.status(404).json({
+          error: 'Order not found',
+          message: translate(locale, 'order_not_found', { order_number: orderNumber! })
+        });
+      }
+
+      const emailDenied = checkCustomerEmail(email!, await getShopifySnapshot(orderNumber!, linkData));
+      if (emailDenied) {
+        const { error, message } = localizeDenial(emailDenied, locale);
+        return res.status(emailDenied.status).json({ error, message });
+      }
+    }
+
+    // Resume after the last event the client saw, or start from now
+    cursor = Number.isInteger(lastEventId) && lastEventId >= 0
+      ? lastEventId
+      : await history.latestSequence();
+  } catch (error) {
+    console.error('[STREAM] ❌ Error opening stream:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.status(200);
+  res.write(`retry: ${POLL_INTERVAL_MS}\n\n`);
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const maxSeconds = Number(process.env.SSE_MAX_DURATION_SECONDS) || DEFAULT_MAX_DURATION_SECONDS;
+  const deadline = Date.now() + maxSeconds * 1000;
+  let lastWrite = Date.now();
+
+  const send = (event: string, id: number, data: unknown) => {
+    res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    lastWrite = Date.now();
+  };
+
+  try {
+    while (!closed && Date.now() < deadline) {
+      if ((await history.latestSequence()) > cursor) {
+        const fresh = await history.feedSince(cursor);
+        const entries = fresh.filter(entry => !orderNumber || entry.event.order_number === orderNumber);
+
+        // One message per order per batch, carrying its latest state
+        const latestByOrder = new Map<string, FeedEntry>();
+        for (const entry of entries) {
+          latestByOrder.set(entry.event.order_number, entry);
+        }
+
+        for (const entry of Array.from(latestByOrder.values())) {
+          const linkData = await store.get(entry.event.order_number);
+
+          if (!linkData) {
+            send('order_deleted', entry.sequence, { order_number: entry.event.order_number });
+            continue;
+          }
+
+          // Only webhook-cached Shopify fields; a stream must not fan out into lookups
+          const built = buildOrder(entry.event.order_number, linkData, linkData.shopify ?? null, linkData.url_delivery);
+          const order = { ...built, steps: localizeSteps(built.steps, locale) };
+          send('order', entry.sequence, isStaff ? order : toPublicOrder(order));
+        }
+
+        // Move past events for other orders too
+        if (fresh.length > 0) {
+          cursor = fresh[fresh.length - 1].sequence;
+        }
+      }
+
+      if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+        res.write(': ping\n\n');
+        lastWrite = Date.now();
+      }
+
+      await sleep(POLL_INTERVAL_MS);
+    }
+  } catch (error) {
+    console.error('[STREAM] ❌ Error streaming updates:', error);
+  }
+
+  res.end();
+}
+
+export default withStore(handler);
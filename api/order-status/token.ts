@@ -0,0 +1,75 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../../lib/auth';
+import {
+  createOrderAccessToken,
+  getOrderAccessSecret,
+  getOrderAccessTokenTtl
+} from '../../lib/order-access';
+import { parseOrderParam } from '../../lib/order-service';
+import { getCurrentStore, withStore } from '../../lib/stores';
+
+/**
+ * Issues a customer access token for `GET /api/order-status?order=…&token=…`,
+ * e.g. to put in the link of an order confirmation email.
+ */
+async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isDashboardRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
+
+  const orderParam = req.query.order as string | undefined;
+
+  if (!orderParam) {
+    return res.status(400).json({
+      error: 'Order number is required',
+      message: 'Please provide order parameter'
+    });
+  }
+
+  const secret = getOrderAccessSecret();
+
+  if (!secret) {
+    return res.status(501).json({
+      error: 'Not configured',
+      message: 'ORDER_ACCESS_TOKEN_SECRET is not set'
+    });
+  }
+
+  const orderNumber = parseOrderParam(orderParam);
+
+  if (!orderNumber) {
+    return res.status(400).json({
+      error: 'Invalid order number',
+      message: `${orderParam} is not a valid order number`
+    });
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + getOrderAccessTokenTtl();
+
+  return res.status(200).json({
+    success: true,
+    order_number: orderNumber,
+    // Only valid for this store; storefront links need `shop` alongside the token
+    shop: getCurrentStore()?.shop ?? null,
+    token: createOrderAccessToken(secret, orderNumber, expiresAt),
+    expires_at: new Date(expiresAt * 1000).toISOString()
+  });
+}
+
+export default withStore(handler);
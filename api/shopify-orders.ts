@@ -1,11 +1,98 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isDashboardRequest } from '../lib/auth';
+import {
+  ShopifyUnavailableError,
+  getShopifyConfig,
+  listShopifyOrders,
+  type ShopifyOrderSnapshot
+} from '../lib/shopify';
+import { withStore } from '../lib/stores';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 250;
+
+/**
+ * `page_info` is opaque to callers: it carries the GraphQL cursor, which way
+ * to page, and the search it belongs to, so filters don't need resending.
+ */
+interface PageToken {
+  direction: 'after' | 'before';
+  cursor: string;
+  query?: string;
+}
+
+function encodePageToken(token: PageToken): string {
+  return Buffer.from(JSON.stringify(token)).toString('base64url');
+}
+
+function decodePageToken(value: string): PageToken | null {
+  try {
+    const token = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return token && typeof token.cursor === 'string' && (token.direction === 'after' || token.direction === 'before')
+      ? token
+      : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function queryString(value: string | string[] | undefined): string | undefined {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single ? single.trim() || undefined : undefined;
+}
+
+// Builds a Shopify search query such as `financial_status:paid created_at:>=2024-01-01`
+function buildSearchQuery(req: VercelRequest): string | undefined {
+  const terms: string[] = [];
+  const createdMin = queryString(req.query.created_at_min);
+  const createdMax = queryString(req.query.created_at_max);
+  const financialStatus = queryString(req.query.financial_status);
+  const fulfillmentStatus = queryString(req.query.fulfillment_status);
+  const search = queryString(req.query.search);
+
+  if (createdMin) {
+    terms.push(`created_at:>='${createdMin}'`);
+  }
+  if (createdMax) {
+    terms.push(`created_at:<='${createdMax}'`);
+  }
+  if (financialStatus) {
+    terms.push(`financial_status:${financialStatus}`);
+  }
+  if (fulfillmentStatus) {
+    terms.push(`fulfillment_status:${fulfillmentStatus}`);
+  }
+
+  if (search) {
+    // Order numbers match the name field; anything else is Shopify's free-text
+    // search over customer name, email and order fields
+    terms.push(/^#?\d+$/.test(search) ? `name:${search.replace('#', '')}` : JSON.stringify(search));
+  }
+
+  return terms.length > 0 ? terms.join(' ') : undefined;
+}
+
+function toOrderRow(order: ShopifyOrderSnapshot) {
+  return {
+    order_number: order.order_number,
+    order_id: order.order_id,
+    created_at: order.created_at,
+    total_price: order.total_price,
+    financial_status: order.financial_status,
+    fulfillment_status: order.fulfillment_status,
+    customer: {
+      email: order.email,
+      name: order.customer_name
+    }
+  };
+}
+
+async function handler(req: VercelRequest, res: VercelResponse) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Admin-Key, X-Dashboard-Key, X-Bella-Shop');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -15,59 +102,86 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const SHOPIFY_STORE = process.env.SHOPIFY_STORE;
-  const ACCESS_TOKEN = process.env.SHOPIFY_ACCESS_TOKEN;
+  // Customer names, emails and payment state are staff-only
+  if (!isDashboardRequest(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid X-Dashboard-Key or X-Admin-Key header is required'
+    });
+  }
 
-  if (!SHOPIFY_STORE || !ACCESS_TOKEN) {
+  if (!getShopifyConfig()) {
     return res.status(500).json({ 
       error: 'Missing Shopify credentials',
-      message: 'Please set SHOPIFY_STORE and SHOPIFY_ACCESS_TOKEN in environment variables'
+      message: 'Please set SHOPIFY_STORE and SHOPIFY_ACCESS_TOKEN, or an access_token for this shop in SHOPIFY_STORES'
     });
   }
 
-  try {
-    const response = await fetch(
-      `https://${SHOPIFY_STORE}/admin/api/2024-01/orders.json?status=any&limit=250`,
-      {
-        headers: {
-          'X-Shopify-Access-Token': ACCESS_TOKEN,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+  const limitParam = queryString(req.query.limit);
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Shopify API error: ${response.status} - ${errorText}`);
-    }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return res.status(400).json({
+      error: 'Invalid limit',
+      message: `limit must be an integer between 1 and ${MAX_LIMIT}`
+    });
+  }
 
-    const data = await response.json();
-
-    // Transform to our format
-    const orders = data.orders.map((order: any) => ({
-      order_number: order.name,
-      order_id: order.id.toString(),
-      created_at: order.created_at,
-      total_price: order.total_price,
-      financial_status: order.financial_status,
-      fulfillment_status: order.fulfillment_status,
-      customer: {
-        email: order.customer?.email || '',
-        name: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim()
-      }
-    }));
+  const pageInfo = queryString(req.query.page_info);
+  const pageToken = pageInfo ? decodePageToken(pageInfo) : null;
+
+  if (pageInfo && !pageToken) {
+    return res.status(400).json({
+      error: 'Invalid page_info',
+      message: 'page_info must be a cursor returned by this endpoint'
+    });
+  }
+
+  // A cursor already carries its search, so filters are ignored next to page_info
+  const query = pageToken ? pageToken.query : buildSearchQuery(req);
+
+  try {
+    const page = await listShopifyOrders({
+      limit,
+      query,
+      after: pageToken?.direction === 'after' ? pageToken.cursor : undefined,
+      before: pageToken?.direction === 'before' ? pageToken.cursor : undefined
+    });
+
+    const orders = page.orders.map(toOrderRow);
 
     return res.status(200).json({ 
       success: true,
       count: orders.length,
-      orders 
+      orders,
+      pagination: {
+        limit,
+        next_page_info: page.next_cursor
+          ? encodePageToken({ direction: 'after', cursor: page.next_cursor, query })
+          : null,
+        previous_page_info: page.previous_cursor
+          ? encodePageToken({ direction: 'before', cursor: page.previous_cursor, query })
+          : null
+      }
     });
 
   } catch (error) {
     console.error('Shopify API error:', error);
+
+    // Retries already ran out, so ask the caller to come back later
+    if (error instanceof ShopifyUnavailableError) {
+      res.setHeader('Retry-After', '30');
+      return res.status(503).json({
+        error: 'Shopify unavailable',
+        message: error.message
+      });
+    }
+
     return res.status(500).json({ 
       error: 'Failed to fetch orders',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-}
\ No newline at end of file
+}
+
+export default withStore(handler);
@@ -0,0 +1,159 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { OrderLinkData } from '../lib/types';
+import { allowsUnsignedWebhooks } from '../lib/auth';
+import { getOrderStore } from '../lib/order-store';
+import {
+  diffOrderLinkData,
+  getOrderHistoryStore,
+  type OrderHistoryEvent
+} from '../lib/order-history';
+import { getIdempotencyStore } from '../lib/idempotency';
+import { notifyCustomer } from '../lib/notifications';
+import { getHeader, readRawBody } from '../lib/http';
+import { toShopifySnapshot } from '../lib/shopify';
+import { getShopifyOrderCache } from '../lib/shopify-cache';
+import { dispatchOrderEvents } from '../lib/webhook-deliveries';
+import { verifyShopifyWebhook } from '../lib/webhook-signature';
+import { resolveWorkflow } from '../lib/workflows';
+import { getCurrentStore, withStore } from '../lib/stores';
+
+const HANDLED_TOPICS = ['orders/create', 'orders/updated'];
+
+// Shopify signs the raw body, so parse it ourselves
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rawBody = await readRawBody(req);
+  // Each store signs with its own app secret; X-Shopify-Shop-Domain picked the store
+  const secret = getCurrentStore()?.webhook_secret;
+
+  if (secret) {
+    const check = verifyShopifyWebhook(rawBody, getHeader(req, 'x-shopify-hmac-sha256'), secret);
+    if (!check.valid) {
+      console.warn(`[SHOPIFY WEBHOOK] ❌ Rejected: ${check.reason}`);
+      return res.status(401).json({ error: 'Unauthorized', message: check.reason });
+    }
+  } else if (!allowsUnsignedWebhooks()) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Webhook signing secret is not configured'
+    });
+  } else {
+    console.warn('[SHOPIFY WEBHOOK] No webhook secret for this shop - accepting unsigned webhook');
+  }
+
+  const topic = getHeader(req, 'x-shopify-topic');
+
+  // Acknowledge other topics so Shopify doesn't keep retrying them
+  if (!topic || !HANDLED_TOPICS.includes(topic)) {
+    return res.status(200).json({ success: true, ignored: true, message: `Topic ${topic} is not handled` });
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch (error) {
+    return res.status(400).json({ error: 'Invalid JSON', message: 'Request body must be valid JSON' });
+  }
+
+  if (!payload?.name) {
+    return res.status(400).json({ error: 'Invalid payload', message: 'Order payload has no name' });
+  }
+
+  const webhookId = getHeader(req, 'x-shopify-webhook-id');
+  const idempotency = getIdempotencyStore();
+
+  try {
+    if (webhookId) {
+      const claim = await idempotency.claim(`shopify:${webhookId}`);
+      if (!claim.claimed) {
+        console.log(`[SHOPIFY WEBHOOK] ♻️ Duplicate delivery ${webhookId}`);
+        return res.status(200).json({ success: true, duplicate: true });
+      }
+    }
+
+    const orderNumber: string = payload.name;
+    const snapshot = toShopifySnapshot(payload);
+    // Whatever we looked up before this change is stale now
+    await getShopifyOrderCache().invalidate(orderNumber);
+    const store = getOrderStore();
+    const existing = await store.get(orderNumber);
+
+    console.log(`[SHOPIFY WEBHOOK] ${topic} for ${orderNumber}`);
+
+    let linkData: OrderLinkData;
+    let historyEvents: OrderHistoryEvent[] = [];
+
+    if (existing) {
+      // Webhooks can arrive out of order; keep the newest snapshot
+      if (existing.shopify && existing.shopify.updated_at > snapshot.updated_at) {
+        console.log(`[SHOPIFY WEBHOOK] Ignoring stale snapshot for ${orderNumber}`);
+        linkData = existing;
+      } else {
+        linkData = { ...existing, shopify: snapshot };
+      }
+    } else {
+      const workflow = resolveWorkflow({
+        product_name: snapshot.line_items[0]?.name,
+        product_ids: snapshot.line_items.map(item => item.product_id).filter((id): id is string => !!id),
+        variant_ids: snapshot.line_items.map(item => item.variant_id).filter((id): id is string => !!id)
+      });
+      const now = new Date().toISOString();
+
+      linkData = {
+        url_upload: '',
+        url_delivery: '',
+        url_revision: '',
+        current_status: workflow.steps[0].id,
+        product_name: snapshot.line_items[0]?.name,
+        workflow_id: workflow.id,
+        status_timestamps: { [workflow.steps[0].id]: now },
+        shopify: snapshot
+      };
+      historyEvents = diffOrderLinkData(orderNumber, null, linkData, 'shopify', { timestamp: now });
+      console.log(`[SHOPIFY WEBHOOK] ✅ Created tracking entry for ${orderNumber} (workflow: ${workflow.id})`);
+    }
+
+    if (linkData !== existing) {
+      await store.put(orderNumber, linkData);
+      await getOrderHistoryStore().append(historyEvents);
+      await dispatchOrderEvents(historyEvents, linkData);
+    }
+
+    // New orders enter their first step here rather than through Riley, so
+    // this is where that step's email goes out (deduplicated like any other)
+    const notification = existing ? null : await notifyCustomer(orderNumber, linkData, snapshot);
+
+    if (webhookId) {
+      await idempotency.complete(`shopify:${webhookId}`, 200, { success: true });
+    }
+
+    return res.status(200).json({
+      success: true,
+      created: !existing,
+      order_number: orderNumber,
+      current_status: linkData.current_status,
+      notification
+    });
+
+  } catch (error) {
+    console.error('[SHOPIFY WEBHOOK] ❌ Error processing webhook:', error);
+    if (webhookId) {
+      await idempotency.release(`shopify:${webhookId}`);
+    }
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withStore(handler);
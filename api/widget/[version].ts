@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { sendCacheable } from '../../lib/http';
+
+// Each major version is a separate file under widget/, so themes pinned to
+// v1 keep working when a breaking v2 ships
+const WIDGET_VERSIONS = ['v1'];
+
+/** The storefront widget script, e.g. GET /api/widget/v1.js (or /widget/v1.js) */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const version = String(req.query.version || '').replace(/\.js$/, '');
+
+  if (!WIDGET_VERSIONS.includes(version)) {
+    return res.status(404).json({
+      error: 'Widget not found',
+      message: `Unknown widget version "${version}". Available: ${WIDGET_VERSIONS.join(', ')}`
+    });
+  }
+
+  try {
+    const source = await fs.readFile(path.join(process.cwd(), 'widget', `${version}.js`), 'utf8');
+
+    // Fixes ship under the same version, so revalidate rather than cache forever
+    return sendCacheable(req, res, source, 'application/javascript; charset=utf-8', 'public, max-age=300, stale-while-revalidate=86400');
+
+  } catch (error) {
+    console.error('Error serving widget:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,182 @@
+import type { OrderRecord } from './types';
+import type { OrderHistoryEvent } from './order-history';
+import { COMPLETE_STATUS, type Workflow } from './workflows';
+
+/**
+ * Pipeline metrics over tracking records and their history. Pure so the
+ * dashboard can share the report types; api/order-status/analytics.ts does
+ * the loading.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface DurationStats {
+  samples: number;
+  median_hours: number | null;
+  p90_hours: number | null;
+}
+
+export interface OperationsReport {
+  range: { from: string; to: string; days: number };
+  workflow_id: string;
+  /** Tracked orders on the workflow, whenever they started */
+  total_orders: number;
+  /** Orders that started inside the range; the funnel, timings and revision rate cover these */
+  cohort_orders: number;
+  /** Where every tracked order on the workflow is right now */
+  status_counts: { status: string; label: string; count: number }[];
+  funnel: { status: string; label: string; reached: number; rate: number }[];
+  stage_times: ({ status: string; label: string } & DurationStats)[];
+  end_to_end: DurationStats;
+  revisions: { completed_orders: number; with_revision: number; rate: number | null; average_rounds: number | null };
+  throughput: { date: string; started: number; completed: number }[];
+}
+
+interface StatusVisit {
+  status: string;
+  at: number;
+}
+
+function roundHours(ms: number): number {
+  return Math.round((ms / HOUR_MS) * 10) / 10;
+}
+
+/** Linear interpolation between closest ranks; `values` must be sorted */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const rank = (values.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+}
+
+function durationStats(durationsMs: number[]): DurationStats {
+  const sorted = [...durationsMs].sort((a, b) => a - b);
+  const median = percentile(sorted, 0.5);
+  const p90 = percentile(sorted, 0.9);
+  return {
+    samples: sorted.length,
+    median_hours: median === null ? null : roundHours(median),
+    p90_hours: p90 === null ? null : roundHours(p90)
+  };
+}
+
+/**
+ * Every status the order entered, in order. History has each visit; records
+ * older than the history only know the latest entry into each status.
+ */
+function statusVisits(record: OrderRecord, events: OrderHistoryEvent[]): StatusVisit[] {
+  const fromHistory = events
+    .filter(event => event.type === 'status_changed' && event.new_value)
+    .map(event => ({ status: event.new_value!, at: new Date(event.timestamp).getTime() }));
+
+  const visits = fromHistory.length > 0
+    ? fromHistory
+    : Object.entries(record.status_timestamps ?? {}).map(([status, at]) => ({ status, at: new Date(at).getTime() }));
+
+  return visits.filter(visit => !isNaN(visit.at)).sort((a, b) => a.at - b.at);
+}
+
+function toDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** `from`/`to` are inclusive UTC dates (YYYY-MM-DD) */
+export function computeOperationsReport(
+  orders: { record: OrderRecord; events: OrderHistoryEvent[] }[],
+  workflow: Workflow,
+  range: { from: string; to: string }
+): OperationsReport {
+  const start = new Date(`${range.from}T00:00:00.000Z`).getTime();
+  const end = new Date(`${range.to}T00:00:00.000Z`).getTime() + DAY_MS;
+  const inRange = (at: number) => at >= start && at < end;
+  const labelFor = (status: string) => workflow.steps.find(step => step.id === status)?.label ?? status;
+
+  const onWorkflow = orders
+    .filter(({ record }) => (record.workflow_id ?? 'standard') === workflow.id)
+    .map(({ record, events }) => ({ record, visits: statusVisits(record, events) }));
+  const cohort = onWorkflow.filter(({ visits }) => visits.length > 0 && inRange(visits[0].at));
+
+  const statusCounts = new Map<string, number>();
+  for (const { record } of onWorkflow) {
+    statusCounts.set(record.current_status, (statusCounts.get(record.current_status) ?? 0) + 1);
+  }
+
+  const stageDurations = new Map<string, number[]>();
+  const endToEnd: number[] = [];
+  const reached = new Map<string, number>();
+  let completedOrders = 0;
+  let withRevision = 0;
+  let revisionRounds = 0;
+
+  for (const { record, visits } of cohort) {
+    for (const status of Array.from(new Set(visits.map(visit => visit.status)))) {
+      reached.set(status, (reached.get(status) ?? 0) + 1);
+    }
+
+    // A stage lasts until the next status change; the open stage isn't counted yet
+    for (let i = 0; i + 1 < visits.length; i++) {
+      const durations = stageDurations.get(visits[i].status) ?? [];
+      durations.push(visits[i + 1].at - visits[i].at);
+      stageDurations.set(visits[i].status, durations);
+    }
+
+    const completion = visits.find(visit => visit.status === COMPLETE_STATUS);
+    if (completion) {
+      completedOrders++;
+      endToEnd.push(completion.at - visits[0].at);
+
+      const rounds = record.revisions?.length ?? 0;
+      if (rounds > 0) {
+        withRevision++;
+        revisionRounds += rounds;
+      }
+    }
+  }
+
+  const throughput = new Map<string, { started: number; completed: number }>();
+  for (let day = start; day < end; day += DAY_MS) {
+    throughput.set(toDate(day), { started: 0, completed: 0 });
+  }
+  for (const { visits } of onWorkflow) {
+    if (visits.length > 0 && inRange(visits[0].at)) {
+      throughput.get(toDate(visits[0].at))!.started++;
+    }
+    // The latest completion, so an order reopened and completed again counts once
+    const completion = [...visits].reverse().find(visit => visit.status === COMPLETE_STATUS);
+    if (completion && inRange(completion.at)) {
+      throughput.get(toDate(completion.at))!.completed++;
+    }
+  }
+
+  return {
+    range: { from: range.from, to: range.to, days: Math.round((end - start) / DAY_MS) },
+    workflow_id: workflow.id,
+    total_orders: onWorkflow.length,
+    cohort_orders: cohort.length,
+    status_counts: workflow.steps
+      .map(step => step.id)
+      .concat(Array.from(statusCounts.keys()).filter(status => !workflow.steps.some(step => step.id === status)))
+      .map(status => ({ status, label: labelFor(status), count: statusCounts.get(status) ?? 0 })),
+    funnel: workflow.steps.map(step => ({
+      status: step.id,
+      label: step.label,
+      reached: reached.get(step.id) ?? 0,
+      rate: cohort.length > 0 ? (reached.get(step.id) ?? 0) / cohort.length : 0
+    })),
+    stage_times: workflow.steps
+      .filter(step => step.id !== COMPLETE_STATUS)
+      .map(step => ({ status: step.id, label: step.label, ...durationStats(stageDurations.get(step.id) ?? []) })),
+    end_to_end: durationStats(endToEnd),
+    revisions: {
+      completed_orders: completedOrders,
+      with_revision: withRevision,
+      rate: completedOrders > 0 ? withRevision / completedOrders : null,
+      average_rounds: withRevision > 0 ? Math.round((revisionRounds / withRevision) * 10) / 10 : null
+    },
+    throughput: Array.from(throughput.entries()).map(([date, counts]) => ({ date, ...counts }))
+  };
+}
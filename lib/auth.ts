@@ -0,0 +1,188 @@
+import { timingSafeEqual } from 'crypto';
+import type { VercelRequest } from '@vercel/node';
+import type { HistorySource } from './order-history';
+import { getHeader } from './http';
+import { verifyRileySignature } from './webhook-signature';
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function matchesKey(provided: string | undefined, expected: string | undefined): boolean {
+  if (!expected || !provided) {
+    return false;
+  }
+  return safeEqual(provided, expected);
+}
+
+export type StaffRole = 'viewer' | 'operator' | 'admin';
+
+const ROLE_RANK: Record<StaffRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+/** Who a staff request is acting as; `name` is recorded on history events */
+export interface StaffIdentity {
+  name: string;
+  role: StaffRole;
+}
+
+interface StaffUser extends StaffIdentity {
+  key: string;
+}
+
+/**
+ * Per-person dashboard keys from `STAFF_USERS`, a JSON array of
+ * `{ "name", "role", "key" }`. Broken entries are skipped so one typo doesn't
+ * lock everyone out.
+ */
+function getStaffUsers(): StaffUser[] {
+  const raw = process.env.STAFF_USERS;
+  if (!raw) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    console.error('[AUTH] STAFF_USERS is not valid JSON');
+    return [];
+  }
+
+  if (!Array.isArray(entries)) {
+    console.error('[AUTH] STAFF_USERS must be a JSON array');
+    return [];
+  }
+
+  return entries.filter((entry): entry is StaffUser => {
+    const valid =
+      typeof entry?.name === 'string' &&
+      typeof entry?.key === 'string' &&
+      entry.key.length > 0 &&
+      entry.role in ROLE_RANK;
+    if (!valid) {
+      console.warn(`[AUTH] Skipping invalid STAFF_USERS entry ${JSON.stringify(entry?.name ?? null)}`);
+    }
+    return valid;
+  });
+}
+
+/**
+ * Resolves the staff member behind a request. `X-Admin-Key` (`ADMIN_API_KEY`)
+ * is always an admin; `X-Dashboard-Key` may be a `STAFF_USERS` key, the admin
+ * key, or the shared `DASHBOARD_API_KEY`, which acts as an operator.
+ */
+export function getStaffIdentity(req: VercelRequest): StaffIdentity | null {
+  if (matchesKey(getHeader(req, 'x-admin-key'), process.env.ADMIN_API_KEY)) {
+    return { name: 'admin', role: 'admin' };
+  }
+
+  const dashboardKey = getHeader(req, 'x-dashboard-key');
+  if (!dashboardKey) {
+    return null;
+  }
+
+  const user = getStaffUsers().find(candidate => matchesKey(dashboardKey, candidate.key));
+  if (user) {
+    return { name: user.name, role: user.role };
+  }
+  if (matchesKey(dashboardKey, process.env.ADMIN_API_KEY)) {
+    return { name: 'admin', role: 'admin' };
+  }
+  if (matchesKey(dashboardKey, process.env.DASHBOARD_API_KEY)) {
+    return { name: 'dashboard', role: 'operator' };
+  }
+  return null;
+}
+
+export function hasRole(identity: StaffIdentity | null, role: StaffRole): boolean {
+  return identity !== null && ROLE_RANK[identity.role] >= ROLE_RANK[role];
+}
+
+/** True for staff with the admin role. Always false if no keys are configured. */
+export function isAdminRequest(req: VercelRequest): boolean {
+  return hasRole(getStaffIdentity(req), 'admin');
+}
+
+/** True for any staff member, viewers included */
+export function isDashboardRequest(req: VercelRequest): boolean {
+  return getStaffIdentity(req) !== null;
+}
+
+/**
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; admins may also
+ * trigger scheduled jobs by hand with their key.
+ */
+export function isCronRequest(req: VercelRequest): boolean {
+  const authorization = getHeader(req, 'authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+  return matchesKey(token, process.env.CRON_SECRET) || isAdminRequest(req);
+}
+
+/**
+ * Whether webhooks may arrive unsigned when their secret isn't configured:
+ * only locally (`VERCEL_ENV` unset or `development`). Preview deployments are
+ * public and may share production storage, so they fail closed too.
+ */
+export function allowsUnsignedWebhooks(): boolean {
+  const env = process.env.VERCEL_ENV;
+  return !env || env === 'development';
+}
+
+/**
+ * `source` is null when the request is not allowed to update orders;
+ * `forbidden` then says the caller is known but lacks the operator role.
+ */
+export interface UpdateAuthResult {
+  source: HistorySource | null;
+  /** Staff member making the change, for the history log */
+  actor?: string;
+  message?: string;
+  forbidden?: boolean;
+}
+
+/**
+ * Decides who is allowed to change an order's status. Staff send
+ * `X-Dashboard-Key` or `X-Admin-Key` and need at least the operator role;
+ * everything else must be a Riley webhook signed with `RILEY_WEBHOOK_SECRET`.
+ *
+ * Without a configured secret, unsigned webhooks are accepted only in local
+ * development (see allowsUnsignedWebhooks).
+ */
+export function authenticateStatusUpdate(req: VercelRequest, rawBody: string): UpdateAuthResult {
+  if (getHeader(req, 'x-dashboard-key') !== undefined || getHeader(req, 'x-admin-key') !== undefined) {
+    const identity = getStaffIdentity(req);
+    if (!identity) {
+      return { source: null, message: 'Invalid X-Dashboard-Key or X-Admin-Key' };
+    }
+    if (!hasRole(identity, 'operator')) {
+      return { source: null, forbidden: true, message: `${identity.name} (${identity.role}) cannot change order statuses` };
+    }
+    return { source: 'dashboard', actor: identity.name };
+  }
+
+  const secret = process.env.RILEY_WEBHOOK_SECRET;
+
+  if (!secret) {
+    if (!allowsUnsignedWebhooks()) {
+      return { source: null, message: 'Webhook signing secret is not configured' };
+    }
+    console.warn('[AUTH] RILEY_WEBHOOK_SECRET not set - accepting unsigned webhook');
+    return { source: 'riley' };
+  }
+
+  const tolerance = Number(process.env.RILEY_SIGNATURE_TOLERANCE_SECONDS);
+  const check = verifyRileySignature(
+    rawBody,
+    getHeader(req, 'x-riley-signature'),
+    getHeader(req, 'x-riley-timestamp'),
+    {
+      secret,
+      // Unparseable values fall back to the default rather than disabling the check
+      toleranceSeconds: tolerance > 0 ? tolerance : undefined
+    }
+  );
+
+  return check.valid ? { source: 'riley' } : { source: null, message: check.reason };
+}
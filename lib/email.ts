@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+import { getCurrentStore } from './stores';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Where outgoing email goes. SMTP in production; the file and console sinks
+ * let local development and tests see exactly what customers would get.
+ */
+export interface EmailTransport {
+  name: 'smtp' | 'file' | 'console';
+  /** Resolves to the transport's message id, rejects when the send failed */
+  send(message: EmailMessage): Promise<string>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return {
+    host,
+    port,
+    // Port 465 is implicit TLS; anything else upgrades with STARTTLS
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD
+  };
+}
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    ...(config.user ? { auth: { user: config.user, pass: config.password } } : {})
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return info.messageId;
+    }
+  };
+}
+
+/** Writes each message to `<dir>/<timestamp>-<id>.json` */
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const id = randomUUID();
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${id}.json`);
+      await fs.writeFile(file, JSON.stringify({ id, sent_at: new Date().toISOString(), ...message }, null, 2));
+      return id;
+    }
+  };
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      const id = randomUUID();
+      console.log(`[EMAIL] 📧 To: ${message.to}\n[EMAIL] Subject: ${message.subject}\n${message.text}`);
+      return id;
+    }
+  };
+}
+
+/**
+ * `EMAIL_TRANSPORT` picks `smtp`, `file` (into `EMAIL_OUTBOX_DIR`) or
+ * `console`. Unset, SMTP is used when `SMTP_HOST` is configured and the
+ * console otherwise, so development never emails real customers by accident.
+ */
+export function getEmailTransport(): EmailTransport {
+  const configured = process.env.EMAIL_TRANSPORT;
+  const smtp = getSmtpConfig();
+
+  if (configured === 'file') {
+    return createFileTransport(process.env.EMAIL_OUTBOX_DIR || path.join('/tmp', 'bella-emails'));
+  }
+  if (configured === 'console' || !smtp) {
+    if (configured === 'smtp') {
+      console.warn('[EMAIL] ⚠️ EMAIL_TRANSPORT is smtp but SMTP_HOST is not set - logging emails instead');
+    }
+    return createConsoleTransport();
+  }
+  return createSmtpTransport(smtp);
+}
+
+/** The current store's `email_from`, else `EMAIL_FROM` */
+export function getEmailFrom(): string {
+  return getCurrentStore()?.email_from || process.env.EMAIL_FROM || 'Bella <orders@bella.example>';
+}
@@ -0,0 +1,61 @@
+import { createHash } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+/**
+ * Reads the unparsed request body. Only works in functions that export
+ * `config.api.bodyParser = false`, otherwise the stream is already consumed.
+ */
+export function readRawBody(req: VercelRequest): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer | string) => {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+export function getHeader(req: VercelRequest, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Sends `body` tagged with a hash of its content, answering 304 with no body
+ * when the client's `If-None-Match` already holds this version.
+ */
+export function sendCacheable(
+  req: VercelRequest,
+  res: VercelResponse,
+  body: string,
+  contentType: string,
+  cacheControl: string
+): VercelResponse {
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', cacheControl);
+
+  const ifNoneMatch = getHeader(req, 'if-none-match');
+  const matches = ifNoneMatch
+    ?.split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === etag || tag === '*');
+
+  if (matches) {
+    return res.status(304).end();
+  }
+
+  res.setHeader('Content-Type', contentType);
+  return res.status(200).send(body);
+}
+
+export function sendCacheableJson(
+  req: VercelRequest,
+  res: VercelResponse,
+  body: unknown,
+  cacheControl: string
+): VercelResponse {
+  return sendCacheable(req, res, JSON.stringify(body), 'application/json; charset=utf-8', cacheControl);
+}
@@ -0,0 +1,82 @@
+import en from '../config/locales/en.json';
+import fr from '../config/locales/fr.json';
+import de from '../config/locales/de.json';
+import es from '../config/locales/es.json';
+import type { OrderStep } from './types';
+
+/**
+ * Translation catalogs for what customers read: step labels by step id and
+ * API messages by key. Messages a catalog lacks fall back to English; step
+ * labels fall back to the workflow's own label, which is also what English
+ * shows (its catalog entries are the reference for translators). Shared with
+ * the dashboard, so this module must stay free of server-only imports.
+ */
+
+export interface Catalog {
+  /** The language's own name, for pickers */
+  name: string;
+  steps: Record<string, string>;
+  messages: Record<string, string>;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+const CATALOGS: Record<string, Catalog> = { en, fr, de, es };
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS);
+
+export function getLocaleName(locale: string): string {
+  return CATALOGS[locale]?.name ?? locale;
+}
+
+/** `fr-CA` matches a `fr-ca` catalog first, then `fr` */
+function matchLocale(tag: string): string | null {
+  const normalized = tag.trim().toLowerCase().replace(/_/g, '-');
+  if (CATALOGS[normalized]) {
+    return normalized;
+  }
+  const base = normalized.split('-')[0];
+  return CATALOGS[base] ? base : null;
+}
+
+/**
+ * The locale to answer in: an explicit `locale` parameter wins, then the
+ * best `Accept-Language` match by q-value, then English.
+ */
+export function negotiateLocale(param?: string | null, acceptLanguage?: string | null): string {
+  const explicit = param ? matchLocale(param) : null;
+  if (explicit) {
+    return explicit;
+  }
+
+  const preferences = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...attributes] = part.split(';');
+      const q = attributes.map(attribute => attribute.trim()).find(attribute => attribute.startsWith('q='));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(preference => preference.tag && preference.tag !== '*' && preference.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const preference of preferences) {
+    const matched = matchLocale(preference.tag);
+    if (matched) {
+      return matched;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** Fills `{name}` placeholders from `vars` */
+export function translate(locale: string, key: string, vars: Record<string, string> = {}, fallback?: string): string {
+  const template = CATALOGS[locale]?.messages[key] ?? CATALOGS[DEFAULT_LOCALE].messages[key] ?? fallback ?? key;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => vars[name] ?? placeholder);
+}
+
+export function localizeSteps(steps: OrderStep[], locale: string): OrderStep[] {
+  if (locale === DEFAULT_LOCALE) {
+    return steps;
+  }
+  return steps.map(step => ({ ...step, label: CATALOGS[locale]?.steps[step.id] ?? step.label }));
+}
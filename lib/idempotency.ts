@@ -0,0 +1,75 @@
+import { getStorageBackend, type StorageBackend } from './storage';
+
+const IDEMPOTENCY_KEY_PREFIX = 'idempotency:';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+// Long enough for a slow Shopify round trip, short enough that a crashed
+// request doesn't block Riley's retries for long
+const PROCESSING_TTL_SECONDS = 60;
+
+export interface IdempotencyRecord {
+  state: 'processing' | 'completed';
+  response_status?: number;
+  response_body?: unknown;
+  created_at: string;
+}
+
+/** `record` is the earlier delivery's state when the claim failed */
+export interface ClaimResult {
+  claimed: boolean;
+  record?: IdempotencyRecord | null;
+}
+
+/**
+ * Remembers which webhook deliveries were already handled so retries can be
+ * answered with the original response instead of being processed again.
+ */
+export interface IdempotencyStore {
+  /** Marks the key as in flight; fails if it was seen within the window */
+  claim(key: string): Promise<ClaimResult>;
+  complete(key: string, status: number, body: unknown): Promise<void>;
+  /** Forgets an in-flight key so a retry can be processed from scratch */
+  release(key: string): Promise<void>;
+}
+
+export function createIdempotencyStore(
+  backend: StorageBackend,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS
+): IdempotencyStore {
+  const keyFor = (key: string) => `${IDEMPOTENCY_KEY_PREFIX}${key}`;
+
+  return {
+    async claim(key) {
+      const record: IdempotencyRecord = { state: 'processing', created_at: new Date().toISOString() };
+      const claimed = await backend.set(keyFor(key), record, {
+        onlyIfAbsent: true,
+        ttlSeconds: PROCESSING_TTL_SECONDS
+      });
+
+      if (claimed) {
+        return { claimed: true };
+      }
+      return { claimed: false, record: await backend.get<IdempotencyRecord>(keyFor(key)) };
+    },
+
+    async complete(key, status, body) {
+      const existing = await backend.get<IdempotencyRecord>(keyFor(key));
+      const record: IdempotencyRecord = {
+        state: 'completed',
+        response_status: status,
+        response_body: body,
+        created_at: existing?.created_at ?? new Date().toISOString()
+      };
+      await backend.set(keyFor(key), record, { ttlSeconds });
+    },
+
+    async release(key) {
+      await backend.del(keyFor(key));
+    }
+  };
+}
+
+/** `IDEMPOTENCY_TTL_SECONDS` controls how long processed keys are remembered */
+export function getIdempotencyStore(): IdempotencyStore {
+  const ttl = Number(process.env.IDEMPOTENCY_TTL_SECONDS);
+  return createIdempotencyStore(getStorageBackend(), ttl > 0 ? ttl : DEFAULT_TTL_SECONDS);
+}
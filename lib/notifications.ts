@@ -0,0 +1,139 @@
+import notificationConfig from '../config/notifications.json';
+import type { OrderLinkData } from './types';
+import type { ShopifyOrderSnapshot } from './shopify';
+import { getStorageBackend } from './storage';
+import { getEmailFrom, getEmailTransport } from './email';
+import { getSlotUrl, getStep, getWorkflow } from './workflows';
+
+const SENT_KEY_PREFIX = 'notification-sent:';
+// Long enough to outlive any retry of the update that triggered the send
+const SENT_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Customer email for entering a status, from `config/notifications.json`.
+ * Keys are status ids, so one template covers that step in every workflow.
+ * `{{order_number}}`, `{{customer_name}}`, `{{product_name}}`, `{{url}}`,
+ * `{{status_label}}` and `{{round}}` are filled in when sending.
+ */
+export interface NotificationTemplate {
+  /** Defaults to true; set false to keep the template but stop sending it */
+  enabled?: boolean;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface NotificationResult {
+  status: 'sent' | 'skipped' | 'duplicate' | 'failed';
+  reason?: string;
+  transport?: string;
+  message_id?: string;
+}
+
+const TEMPLATES = (notificationConfig as { statuses: Record<string, NotificationTemplate> }).statuses;
+
+export function getNotificationTemplate(status: string): NotificationTemplate | null {
+  const template = TEMPLATES[status];
+  return template && template.enabled !== false ? template : null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Unknown placeholders render empty rather than leaking `{{...}}` to customers */
+export function renderTemplate(template: string, vars: Record<string, string>, options: { html?: boolean } = {}): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = vars[name] ?? '';
+    return options.html ? escapeHtml(value) : value;
+  });
+}
+
+function usesUrl(template: NotificationTemplate): boolean {
+  return [template.subject, template.text, template.html ?? ''].some(part => /\{\{\s*url\s*\}\}/.test(part));
+}
+
+/**
+ * Emails the customer about the status their order is in, at most once per
+ * entry into that status (and per revision round), so Riley retries and
+ * repeated URL updates don't send duplicates. Templates that link somewhere
+ * wait until the step's URL has arrived. A failed send is reported, not
+ * thrown, and is retried on the order's next update.
+ */
+export async function notifyCustomer(
+  orderNumber: string,
+  linkData: OrderLinkData,
+  shopify: ShopifyOrderSnapshot | null
+): Promise<NotificationResult | null> {
+  if (process.env.NOTIFICATIONS_ENABLED === 'false') {
+    return null;
+  }
+
+  const status = linkData.current_status;
+  const template = getNotificationTemplate(status);
+  if (!template) {
+    return null;
+  }
+
+  const workflow = getWorkflow(linkData.workflow_id);
+  const step = getStep(workflow, status);
+  const url = step?.url_slot ? getSlotUrl(linkData, step.url_slot) : '';
+  const round = step?.rounds ? linkData.revisions?.[linkData.revisions.length - 1]?.round : undefined;
+
+  if (!shopify?.email) {
+    return { status: 'skipped', reason: 'No customer email on the Shopify order' };
+  }
+  if (usesUrl(template) && !url) {
+    return { status: 'skipped', reason: `Waiting for the ${step?.url_slot ?? 'step'} URL` };
+  }
+
+  const enteredAt = linkData.status_timestamps?.[status] ?? '';
+  const sentKey = `${SENT_KEY_PREFIX}${orderNumber}:${status}:${enteredAt}${round !== undefined ? `:${round}` : ''}`;
+  const backend = getStorageBackend();
+
+  const claimed = await backend.set(sentKey, { claimed_at: new Date().toISOString() }, {
+    onlyIfAbsent: true,
+    ttlSeconds: SENT_TTL_SECONDS
+  });
+  if (!claimed) {
+    return { status: 'duplicate', reason: 'Already notified for this step' };
+  }
+
+  const vars: Record<string, string> = {
+    order_number: orderNumber,
+    customer_name: shopify.customer_name || 'there',
+    product_name: linkData.product_name || shopify.line_items[0]?.name || 'your order',
+    url,
+    status_label: step?.label ?? status,
+    round: round !== undefined ? String(round) : ''
+  };
+
+  const transport = getEmailTransport();
+
+  try {
+    const messageId = await transport.send({
+      to: shopify.email,
+      from: getEmailFrom(),
+      subject: renderTemplate(template.subject, vars),
+      text: renderTemplate(template.text, vars),
+      ...(template.html ? { html: renderTemplate(template.html, vars, { html: true }) } : {})
+    });
+
+    await backend.set(sentKey, { sent_at: new Date().toISOString(), message_id: messageId }, {
+      ttlSeconds: SENT_TTL_SECONDS
+    });
+    console.log(`[NOTIFY] ✅ Emailed ${orderNumber} about ${status} via ${transport.name}`);
+    return { status: 'sent', transport: transport.name, message_id: messageId };
+  } catch (error) {
+    // Forget the claim so the next update for this step can try again
+    await backend.del(sentKey);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[NOTIFY] ❌ Failed to email ${orderNumber} about ${status}: ${message}`);
+    return { status: 'failed', transport: transport.name, reason: message };
+  }
+}
@@ -0,0 +1,160 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { Order, ShopifyLookupStatus } from './types';
+import type { SignatureCheck } from './webhook-signature';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import { getStoreNamespace } from './stores';
+
+const DEFAULT_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Customer access tokens work like the links on Shopify's order status page:
+ * `<expires>.<hex HMAC-SHA256 of "<order number>.<expires>">`, signed with
+ * `ORDER_ACCESS_TOKEN_SECRET`, with `expires` in unix seconds. The order
+ * number is signed with its leading `#` whichever form the caller used, and
+ * outside the default store as `<shop>/<order number>` so a link can't open
+ * another store's order with the same number.
+ */
+function signOrderAccess(secret: string, orderNumber: string, expires: number): string {
+  const orderName = orderNumber.startsWith('#') ? orderNumber : `#${orderNumber}`;
+  const namespace = getStoreNamespace();
+  const subject = namespace ? `${namespace}/${orderName}` : orderName;
+  return createHmac('sha256', secret).update(`${subject}.${expires}`).digest('hex');
+}
+
+export function getOrderAccessSecret(): string | undefined {
+  return process.env.ORDER_ACCESS_TOKEN_SECRET;
+}
+
+/** `ORDER_ACCESS_TOKEN_TTL_SECONDS` overrides the 30 day default */
+export function getOrderAccessTokenTtl(): number {
+  const ttl = Number(process.env.ORDER_ACCESS_TOKEN_TTL_SECONDS);
+  return ttl > 0 ? ttl : DEFAULT_TOKEN_TTL_SECONDS;
+}
+
+export function createOrderAccessToken(
+  secret: string,
+  orderNumber: string,
+  expiresAt: number
+): string {
+  return `${expiresAt}.${signOrderAccess(secret, orderNumber, expiresAt)}`;
+}
+
+export function verifyOrderAccessToken(
+  token: string,
+  orderNumber: string,
+  options: { secret: string; now?: number }
+): SignatureCheck {
+  const [expiresPart, signature] = token.split('.');
+  const expires = Number(expiresPart);
+
+  if (!signature || !Number.isInteger(expires)) {
+    return { valid: false, reason: 'Malformed access token' };
+  }
+
+  if (expires < Math.floor((options.now ?? Date.now()) / 1000)) {
+    return { valid: false, reason: 'Access token has expired' };
+  }
+
+  const provided = Buffer.from(signature, 'hex');
+  const expected = Buffer.from(signOrderAccess(options.secret, orderNumber, expires), 'hex');
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return { valid: false, reason: 'Access token is not valid for this order' };
+  }
+
+  return { valid: true };
+}
+
+/** Case-insensitive, and compared as digests so timing doesn't leak the address */
+export function emailMatches(provided: string, expected: string | undefined): boolean {
+  if (!expected) {
+    return false;
+  }
+  const digest = (email: string) => createHash('sha256').update(email.trim().toLowerCase()).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/** Why a customer was refused; `status` is the HTTP status to answer with */
+export interface AccessDenial {
+  status: 401 | 403 | 503;
+  error: string;
+  message: string;
+  /** Translation key for `message` (see lib/i18n.ts) */
+  code: 'credentials_required' | 'token_invalid' | 'email_unverifiable' | 'email_mismatch';
+}
+
+/** English keeps the specific message; other locales get the catalog's wording */
+export function localizeDenial(denial: AccessDenial, locale: string): AccessDenial {
+  return locale === DEFAULT_LOCALE ? denial : { ...denial, message: translate(locale, denial.code, {}, denial.message) };
+}
+
+/**
+ * First half of a customer lookup: they must bring the order email or a
+ * token, and a token can be checked before loading anything.
+ */
+export function checkCustomerCredentials(
+  orderNumber: string,
+  credentials: { email?: string; token?: string }
+): AccessDenial | null {
+  if (!credentials.email && !credentials.token) {
+    return {
+      status: 401,
+      error: 'Unauthorized',
+      message: 'Provide the order email or an access token',
+      code: 'credentials_required'
+    };
+  }
+
+  if (credentials.token) {
+    const secret = getOrderAccessSecret();
+    const check = secret
+      ? verifyOrderAccessToken(credentials.token, orderNumber, { secret })
+      : { valid: false, reason: 'Access tokens are not enabled' };
+
+    if (!check.valid) {
+      return { status: 403, error: 'Forbidden', message: check.reason!, code: 'token_invalid' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Second half, for email credentials: the address lives on the Shopify
+ * order, so it can only be checked once that has been looked up.
+ */
+export function checkCustomerEmail(
+  email: string,
+  lookup: { shopify: { email: string } | null; status: ShopifyLookupStatus }
+): AccessDenial | null {
+  if (lookup.status === 'unavailable') {
+    return {
+      status: 503,
+      error: 'Shopify unavailable',
+      message: 'The order email cannot be verified right now, please try again shortly',
+      code: 'email_unverifiable'
+    };
+  }
+
+  if (!emailMatches(email, lookup.shopify?.email)) {
+    return { status: 403, error: 'Forbidden', message: 'Email does not match this order', code: 'email_mismatch' };
+  }
+
+  return null;
+}
+
+/**
+ * What customers see: tracking progress without the buyer's identity or
+ * what they paid.
+ */
+export function toPublicOrder(order: Order): Order {
+  const {
+    customer_email,
+    customer_name,
+    total_price,
+    financial_status,
+    line_items,
+    ...publicFields
+  } = order;
+  return publicFields;
+}
@@ -0,0 +1,275 @@
+import type { OrderLinkData, OrderRecord } from './types';
+import type { OrderStore } from './order-store';
+import {
+  COMPLETE_STATUS,
+  canTransition,
+  getWorkflow,
+  isWorkflowStatus,
+  resolveWorkflow
+} from './workflows';
+import { diffOrderLinkData, getOrderHistoryStore } from './order-history';
+import { getShopifySnapshot, normalizeOrderNumber, type UpdateActor } from './order-service';
+import { getNotificationTemplate, notifyCustomer, type NotificationResult } from './notifications';
+import { applyRevisionRound } from './revisions';
+import { COMPLETION_TAG } from './shopify';
+import { getTagOutbox } from './tag-outbox';
+import { dispatchOrderEvents } from './webhook-deliveries';
+import { parseCsv, toCsv, unescapeFormula } from './csv';
+
+export const ORDER_CSV_COLUMNS = [
+  'order_number',
+  'current_status',
+  'url_upload',
+  'url_delivery',
+  'url_revision',
+  'product_name',
+  'updated_at'
+];
+
+// Columns an import may change; updated_at is export-only
+const EDITABLE_FIELDS = ['current_status', 'url_upload', 'url_delivery', 'url_revision', 'product_name'] as const;
+type EditableField = typeof EDITABLE_FIELDS[number];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export function ordersToCsv(records: OrderRecord[]): string {
+  return toCsv(
+    ORDER_CSV_COLUMNS,
+    records.map(record => [
+      record.order_number,
+      record.current_status,
+      record.url_upload,
+      record.url_delivery,
+      record.url_revision,
+      record.product_name ?? '',
+      record.updated_at ?? ''
+    ])
+  );
+}
+
+export interface ImportChange {
+  field: EditableField;
+  from: string | null;
+  to: string;
+}
+
+export interface ImportRowPlan {
+  /** Line in the file, counting the header as line 1 */
+  line: number;
+  order_number: string;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  changes: ImportChange[];
+  errors?: string[];
+}
+
+export interface ImportPlan {
+  valid: boolean;
+  /** Problems with the file as a whole, e.g. unknown columns */
+  errors: string[];
+  rows: ImportRowPlan[];
+  summary: Record<ImportRowPlan['action'], number>;
+  /** Records to write when the plan is applied, in file order */
+  writes: { order_number: string; before: OrderLinkData | null; after: OrderLinkData }[];
+}
+
+function emptyPlan(errors: string[]): ImportPlan {
+  return {
+    valid: false,
+    errors,
+    rows: [],
+    summary: { create: 0, update: 0, unchanged: 0, error: 0 },
+    writes: []
+  };
+}
+
+/**
+ * Works out what importing `csv` would do without writing anything. Blank
+ * cells keep the stored value, so a sheet with only some columns filled in
+ * is a partial update. Status changes follow the order's workflow unless
+ * `force` is set. Revision links go through the workflow's rounds like a
+ * Riley update: entering the revision step opens a round, and a
+ * `url_revision` cell sets the URL of the latest one.
+ */
+export async function planOrderImport(
+  csv: string,
+  store: OrderStore,
+  options: { force?: boolean } = {}
+): Promise<ImportPlan> {
+  let table: string[][];
+  try {
+    table = parseCsv(csv);
+  } catch (error) {
+    return emptyPlan([`Invalid CSV: ${error instanceof Error ? error.message : 'parse error'}`]);
+  }
+
+  if (table.length === 0) {
+    return emptyPlan(['The file is empty']);
+  }
+
+  const header = table[0].map(name => name.trim().toLowerCase());
+  const unknown = header.filter(name => !ORDER_CSV_COLUMNS.includes(name));
+
+  if (unknown.length > 0 || !header.includes('order_number')) {
+    return emptyPlan([
+      ...(unknown.length > 0 ? [`Unknown columns: ${unknown.join(', ')}`] : []),
+      ...(!header.includes('order_number') ? ['An order_number column is required'] : [])
+    ]);
+  }
+
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    return emptyPlan([`An import can contain at most ${MAX_IMPORT_ROWS} rows`]);
+  }
+
+  const plan = emptyPlan([]);
+  const seen = new Set<string>();
+
+  for (let index = 1; index < table.length; index++) {
+    const cells: Record<string, string> = {};
+    header.forEach((name, column) => {
+      cells[name] = unescapeFormula((table[index][column] ?? '').trim());
+    });
+
+    const orderNumber = cells.order_number ? normalizeOrderNumber(cells.order_number) : '';
+    const errors: string[] = [];
+
+    if (!orderNumber) {
+      errors.push('order_number is required');
+    } else if (seen.has(orderNumber)) {
+      errors.push(`${orderNumber} appears more than once`);
+    }
+    seen.add(orderNumber);
+
+    for (const slot of ['url_upload', 'url_delivery', 'url_revision']) {
+      if (cells[slot] && !/^https?:\/\//i.test(cells[slot])) {
+        errors.push(`${slot} must be an http(s) URL`);
+      }
+    }
+
+    const before = orderNumber ? await store.get(orderNumber) : null;
+    const workflow = before
+      ? getWorkflow(before.workflow_id)
+      : resolveWorkflow({ product_name: cells.product_name || undefined });
+    const status = cells.current_status;
+
+    if (status && !isWorkflowStatus(workflow, status)) {
+      errors.push(`Unknown current_status "${status}" for workflow "${workflow.id}"`);
+    } else if (status && before && !options.force && !canTransition(workflow, before.current_status, status)) {
+      errors.push(`Cannot move from "${before.current_status}" to "${status}"`);
+    }
+
+    const after: OrderLinkData = before
+      ? { ...before }
+      : {
+          url_upload: '',
+          url_delivery: '',
+          url_revision: '',
+          current_status: workflow.steps[0].id,
+          workflow_id: workflow.id
+        };
+    const changes: ImportChange[] = [];
+    const revisionStep = workflow.steps.find(step => step.rounds && step.url_slot === 'url_revision');
+
+    for (const field of EDITABLE_FIELDS) {
+      const value = cells[field];
+      const current = before ? before[field] ?? null : null;
+      // Rounds own url_revision on workflows that have them; see below
+      if (value && value !== current && !(field === 'url_revision' && revisionStep)) {
+        changes.push({ field, from: current, to: value });
+        after[field] = value;
+      }
+    }
+
+    const entering = !!revisionStep && after.current_status === revisionStep.id && before?.current_status !== revisionStep.id;
+    const revisionUrl = cells.url_revision && cells.url_revision !== before?.url_revision ? cells.url_revision : undefined;
+
+    if (revisionStep && (entering || revisionUrl)) {
+      const revision = applyRevisionRound(after, revisionStep, {
+        entering,
+        url: revisionUrl,
+        timestamp: new Date().toISOString(),
+        force: options.force
+      });
+      const current = before ? before.url_revision ?? null : null;
+      if (revision.error) {
+        errors.push(revision.error.message);
+      } else if (after.url_revision !== (current ?? '')) {
+        changes.push({ field: 'url_revision', from: current, to: after.url_revision });
+      }
+    }
+
+    if (errors.length > 0) {
+      plan.rows.push({ line: index + 1, order_number: orderNumber, action: 'error', changes: [], errors });
+      plan.summary.error++;
+      continue;
+    }
+
+    if (!before && !cells.current_status) {
+      changes.unshift({ field: 'current_status', from: null, to: after.current_status });
+    }
+
+    if (!before || before.current_status !== after.current_status) {
+      after.status_timestamps = {
+        ...after.status_timestamps,
+        [after.current_status]: new Date().toISOString()
+      };
+    }
+
+    const action = !before ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+    plan.rows.push({ line: index + 1, order_number: orderNumber, action, changes });
+    plan.summary[action]++;
+
+    if (action !== 'unchanged') {
+      plan.writes.push({ order_number: orderNumber, before, after });
+    }
+  }
+
+  plan.valid = plan.summary.error === 0;
+  return plan;
+}
+
+/** Customer emails an applied import sent, by outcome; null when `notify` was off */
+export type ImportNotificationSummary = Record<NotificationResult['status'], number> | null;
+
+/**
+ * Writes a valid plan. Completions go through the tag outbox and webhooks
+ * are left to the cron rather than called inline, so a large import can't
+ * exhaust the rate limit or time out on a slow receiver. Customers are
+ * emailed about the step their order is in, deduplicated like any status
+ * update, unless `notify` is false.
+ */
+export async function applyOrderImport(
+  plan: ImportPlan,
+  store: OrderStore,
+  by: UpdateActor,
+  options: { force?: boolean; notify?: boolean } = {}
+): Promise<ImportNotificationSummary> {
+  const history = getOrderHistoryStore();
+  const notifications = options.notify === false ? null : { sent: 0, skipped: 0, duplicate: 0, failed: 0 };
+
+  for (const write of plan.writes) {
+    const events = diffOrderLinkData(write.order_number, write.before, write.after, by.source, {
+      actor: by.actor,
+      forced: options.force
+    });
+
+    await store.put(write.order_number, write.after);
+    await history.append(events);
+    await dispatchOrderEvents(events, write.after, { deliverNow: false });
+
+    if (write.after.current_status === COMPLETE_STATUS && write.before?.current_status !== COMPLETE_STATUS) {
+      // Not tried inline, so due on the next cron run
+      await getTagOutbox().enqueue(write.order_number, COMPLETION_TAG);
+    }
+
+    // Checked first so rows without an email to send cost no Shopify lookup
+    if (notifications && getNotificationTemplate(write.after.current_status)) {
+      const { shopify } = await getShopifySnapshot(write.order_number, write.after);
+      const result = await notifyCustomer(write.order_number, write.after, shopify);
+      if (result) {
+        notifications[result.status]++;
+      }
+    }
+  }
+
+  return notifications;
+}
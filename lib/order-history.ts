@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import type { OrderLinkData } from './types';
+import { getSlotUrl } from './workflows';
+import { getStorageBackend, type StorageBackend } from './storage';
+
+const HISTORY_KEY_PREFIX = 'history:';
+const FEED_KEY = 'history-feed';
+const FEED_SEQUENCE_KEY = 'history-feed:seq';
+// Enough for a reconnecting stream to catch up; older entries live on in
+// the per-order history lists
+const FEED_LENGTH = 1000;
+
+export type HistorySource = 'riley' | 'dashboard' | 'shopify';
+
+/** `current_status` or the URL slot that changed (see lib/workflows.ts) */
+export type HistoryField = string;
+
+/**
+ * One immutable change to an order's tracking data. Events are only ever
+ * appended, so the list doubles as the audit trail for customer disputes.
+ */
+export interface OrderHistoryEvent {
+  id: string;
+  order_number: string;
+  type: 'status_changed' | 'url_changed' | 'record_deleted';
+  field: HistoryField;
+  previous_value: string | null;
+  /** null only for `record_deleted` */
+  new_value: string | null;
+  source: HistorySource;
+  /** Staff member behind a dashboard change */
+  actor?: string;
+  timestamp: string;
+  forced?: boolean;
+}
+
+/** An event in the cross-order feed that live status streams follow */
+export interface FeedEntry {
+  sequence: number;
+  event: OrderHistoryEvent;
+}
+
+export interface OrderHistoryStore {
+  append(events: OrderHistoryEvent[]): Promise<void>;
+  list(orderNumber: string): Promise<OrderHistoryEvent[]>;
+  /** Sequence number of the newest feed entry, 0 when there is none */
+  latestSequence(): Promise<number>;
+  /** Feed entries newer than `sequence`, oldest first */
+  feedSince(sequence: number): Promise<FeedEntry[]>;
+}
+
+export function createOrderHistoryStore(backend: StorageBackend): OrderHistoryStore {
+  return {
+    async append(events) {
+      // Group by order so each list gets a single push
+      const byOrder = new Map<string, OrderHistoryEvent[]>();
+      for (const event of events) {
+        byOrder.set(event.order_number, [...(byOrder.get(event.order_number) ?? []), event]);
+      }
+
+      for (const [orderNumber, orderEvents] of Array.from(byOrder.entries())) {
+        await backend.rpush(`${HISTORY_KEY_PREFIX}${orderNumber}`, ...orderEvents);
+      }
+
+      if (events.length > 0) {
+        const entries: FeedEntry[] = [];
+        for (const event of events) {
+          entries.push({ sequence: await backend.incr(FEED_SEQUENCE_KEY), event });
+        }
+        await backend.rpush(FEED_KEY, ...entries);
+        await backend.ltrim(FEED_KEY, -FEED_LENGTH, -1);
+      }
+    },
+
+    async list(orderNumber) {
+      return backend.lrange<OrderHistoryEvent>(`${HISTORY_KEY_PREFIX}${orderNumber}`, 0, -1);
+    },
+
+    async latestSequence() {
+      return Number(await backend.get<number>(FEED_SEQUENCE_KEY)) || 0;
+    },
+
+    async feedSince(sequence) {
+      const entries = await backend.lrange<FeedEntry>(FEED_KEY, 0, -1);
+      // Concurrent writers can push slightly out of sequence, so sort before use
+      return entries
+        .filter(entry => entry.sequence > sequence)
+        .sort((a, b) => a.sequence - b.sequence);
+    }
+  };
+}
+
+export function getOrderHistoryStore(): OrderHistoryStore {
+  return createOrderHistoryStore(getStorageBackend());
+}
+
+const RECORD_URL_SLOTS = ['url_upload', 'url_delivery', 'url_revision'];
+
+/**
+ * Builds the events describing how `after` differs from `before`. A missing
+ * `before` means the order is new, so its initial status is recorded too.
+ */
+export function diffOrderLinkData(
+  orderNumber: string,
+  before: OrderLinkData | null,
+  after: OrderLinkData,
+  source: HistorySource,
+  options: { forced?: boolean; timestamp?: string; actor?: string } = {}
+): OrderHistoryEvent[] {
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const events: OrderHistoryEvent[] = [];
+
+  const makeEvent = (
+    type: OrderHistoryEvent['type'],
+    field: HistoryField,
+    previousValue: string | null
+  ): OrderHistoryEvent => ({
+    id: randomUUID(),
+    order_number: orderNumber,
+    type,
+    field,
+    previous_value: previousValue,
+    new_value: field === 'current_status' ? after.current_status : getSlotUrl(after, field),
+    source,
+    ...(options.actor ? { actor: options.actor } : {}),
+    timestamp,
+    ...(options.forced ? { forced: true } : {})
+  });
+
+  if (!before || before.current_status !== after.current_status) {
+    events.push(makeEvent('status_changed', 'current_status', before ? before.current_status : null));
+  }
+
+  const slots = RECORD_URL_SLOTS.concat(
+    Object.keys(before?.extra_urls ?? {}),
+    Object.keys(after.extra_urls ?? {})
+  ).filter((slot, index, all) => all.indexOf(slot) === index);
+
+  for (const field of slots) {
+    const previous = before ? getSlotUrl(before, field) : '';
+    if (previous !== getSlotUrl(after, field)) {
+      events.push(makeEvent('url_changed', field, previous || null));
+    }
+  }
+
+  return events;
+}
+
+/** The last word on a deleted record; its earlier history is kept */
+export function deletionEvent(
+  orderNumber: string,
+  deleted: OrderLinkData,
+  source: HistorySource,
+  actor?: string
+): OrderHistoryEvent {
+  return {
+    id: randomUUID(),
+    order_number: orderNumber,
+    type: 'record_deleted',
+    field: 'current_status',
+    previous_value: deleted.current_status,
+    new_value: null,
+    source,
+    ...(actor ? { actor } : {}),
+    timestamp: new Date().toISOString()
+  };
+}
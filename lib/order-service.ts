@@ -0,0 +1,386 @@
+import type { Order, OrderLinkData, ShopifyLookupStatus } from './types';
+import { getOrderStore } from './order-store';
+import {
+  COMPLETE_STATUS,
+  allowedTransitions,
+  canTransition,
+  generateSteps,
+  getSlotUrl,
+  getStep,
+  getWorkflow,
+  hasIdMatchers,
+  isEarlierStep,
+  isWorkflowStatus,
+  resolveWorkflow,
+  setSlotUrl,
+  type ProductIdentity,
+  type Workflow
+} from './workflows';
+import { diffOrderLinkData, getOrderHistoryStore, type HistorySource } from './order-history';
+import { applyRevisionRound } from './revisions';
+import {
+  COMPLETION_TAG,
+  ShopifyUnavailableError,
+  addShopifyOrderTag,
+  fetchShopifyOrder,
+  getShopifyConfig,
+  type ShopifyOrderSnapshot
+} from './shopify';
+import { getTagOutbox } from './tag-outbox';
+import { dispatchOrderEvents } from './webhook-deliveries';
+import { notifyCustomer } from './notifications';
+
+/** One order's update, as sent to POST /api/order-status or as a bulk item */
+export interface StatusUpdateInput {
+  /** Normalized with its leading `#` */
+  order_number: string;
+  current_status?: string;
+  /** Stored in the URL slot of the status being entered */
+  url?: string;
+  product_name?: string;
+  /** Optional Shopify IDs used to pick a new order's workflow */
+  product_id?: string | number;
+  variant_id?: string | number;
+  /** Explicit round for steps that track revision rounds */
+  revision_round?: number;
+  /** Skip workflow transition checks; callers must have checked the admin role */
+  force?: boolean;
+  /**
+   * When the change happened at the source, used to drop out-of-order events.
+   * Riley must send it (or `force`) to move an order back to an earlier step.
+   */
+  event_at?: string | null;
+}
+
+export interface UpdateActor {
+  source: HistorySource;
+  actor?: string;
+}
+
+/** The HTTP status and JSON body POST /api/order-status answers with */
+export interface StatusUpdateResult {
+  status: number;
+  body: Record<string, any>;
+}
+
+export function normalizeOrderNumber(orderNumber: string): string {
+  // Riley sends "1002" not "#1002"
+  return orderNumber.startsWith('#') ? orderNumber : `#${orderNumber}`;
+}
+
+/** Decodes and normalizes an order number from a request; null if its escapes are malformed */
+export function parseOrderParam(value: string): string | null {
+  try {
+    return normalizeOrderNumber(decodeURIComponent(value));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Picks the workflow for an order Riley hasn't tracked before. Shopify line
+ * items are only looked up when a workflow matches on product/variant IDs
+ * and Riley didn't send them; if Shopify is down we match on the name alone.
+ */
+async function resolveOrderWorkflow(
+  orderNumber: string,
+  product: { product_name?: string; product_id?: string | number; variant_id?: string | number }
+): Promise<Workflow> {
+  const identity: ProductIdentity = {
+    product_name: product.product_name,
+    product_ids: product.product_id ? [String(product.product_id)] : [],
+    variant_ids: product.variant_id ? [String(product.variant_id)] : []
+  };
+
+  if (hasIdMatchers() && !product.product_id && !product.variant_id) {
+    let shopifyOrder: ShopifyOrderSnapshot | null = null;
+    try {
+      shopifyOrder = await fetchShopifyOrder(orderNumber);
+    } catch (error) {
+      if (!(error instanceof ShopifyUnavailableError)) {
+        throw error;
+      }
+      console.warn(`[WORKFLOW] Shopify unavailable, matching ${orderNumber} by product name only: ${error.message}`);
+    }
+    const lineItems = shopifyOrder?.line_items ?? [];
+    identity.product_ids = lineItems.map(item => item.product_id).filter((id): id is string => !!id);
+    identity.variant_ids = lineItems.map(item => item.variant_id).filter((id): id is string => !!id);
+    identity.product_name = identity.product_name || lineItems[0]?.name;
+  }
+
+  return resolveWorkflow(identity);
+}
+
+/**
+ * Shopify fields for the response: the webhook-maintained snapshot when we
+ * have one, otherwise a live lookup. Never throws - an outage only degrades
+ * the response, and `status` tells the caller which case it got.
+ */
+export async function getShopifySnapshot(
+  orderNumber: string,
+  linkData: OrderLinkData
+): Promise<{ shopify: ShopifyOrderSnapshot | null; status: ShopifyLookupStatus }> {
+  if (linkData.shopify) {
+    return { shopify: linkData.shopify, status: 'found' };
+  }
+
+  if (!getShopifyConfig()) {
+    return { shopify: null, status: 'not_configured' };
+  }
+
+  try {
+    const shopify = await fetchShopifyOrder(orderNumber);
+    return { shopify, status: shopify ? 'found' : 'not_found' };
+  } catch (error) {
+    console.error(`Shopify lookup failed for ${orderNumber}:`, error);
+    return { shopify: null, status: 'unavailable' };
+  }
+}
+
+export function buildOrder(
+  orderNumber: string,
+  linkData: OrderLinkData,
+  shopify: ShopifyOrderSnapshot | null,
+  urlLink: string
+): Order {
+  const workflow = getWorkflow(linkData.workflow_id);
+  const base = {
+    current_status: linkData.current_status,
+    url_link: urlLink,
+    workflow_id: workflow.id,
+    revisions: linkData.revisions ?? [],
+    steps: generateSteps(workflow, linkData)
+  };
+
+  if (!shopify) {
+    return {
+      ...base,
+      order_number: orderNumber,
+      order_id: orderNumber.replace('#', ''),
+      product_name: linkData.product_name
+    };
+  }
+
+  return {
+    ...base,
+    order_number: shopify.order_number,
+    order_id: shopify.order_id,
+    product_name: linkData.product_name || shopify.line_items[0]?.name,
+    financial_status: shopify.financial_status ?? undefined,
+    fulfillment_status: shopify.fulfillment_status ?? undefined,
+    total_price: shopify.total_price,
+    created_at: shopify.created_at,
+    customer_email: shopify.email,
+    customer_name: shopify.customer_name,
+    line_items: shopify.line_items
+  };
+}
+
+function reply(status: number, body: Record<string, any>): StatusUpdateResult {
+  return { status, body };
+}
+
+/**
+ * Validates and applies one order's update: workflow transitions, revision
+ * rounds, URL slots, history and the completion tag. POST /api/order-status
+ * and the bulk endpoint both go through here so they can't drift apart.
+ * `deliverWebhooksNow: false` leaves outbound webhooks to the cron.
+ */
+export async function applyStatusUpdate(
+  input: StatusUpdateInput,
+  by: UpdateActor,
+  options: { deliverWebhooksNow?: boolean } = {}
+): Promise<StatusUpdateResult> {
+  const {
+    order_number,
+    current_status,
+    url: linkUrl,
+    product_name,
+    product_id,
+    variant_id,
+    revision_round,
+    force
+  } = input;
+  const eventAt = input.event_at ?? null;
+  const store = getOrderStore();
+
+  // Create or update order entry
+  let linkData: OrderLinkData | null = await store.get(order_number);
+  const previousData = linkData ? { ...linkData } : null;
+
+  // The workflow is fixed when an order is first tracked
+  const workflow = linkData
+    ? getWorkflow(linkData.workflow_id)
+    : await resolveOrderWorkflow(order_number, { product_name, product_id, variant_id });
+
+  if (current_status !== undefined && !isWorkflowStatus(workflow, current_status)) {
+    const allowedStatuses = workflow.steps.map(step => step.id);
+    return reply(400, {
+      error: 'Invalid status',
+      message: `Unknown current_status "${current_status}" for workflow "${workflow.id}". Expected one of: ${allowedStatuses.join(', ')}`,
+      workflow_id: workflow.id,
+      allowed_statuses: allowedStatuses
+    });
+  }
+
+  // Riley retries can arrive after a newer event; never let them roll the order back
+  if (eventAt && linkData?.last_event_at && eventAt < linkData.last_event_at) {
+    console.warn(`[UPDATE] ⚠️ Ignoring out-of-order event from ${eventAt} (latest ${linkData.last_event_at})`);
+    return reply(200, {
+      success: true,
+      applied: false,
+      message: 'Ignored out-of-order event older than the latest processed update',
+      order_number,
+      current_status: linkData.current_status,
+      last_event_at: linkData.last_event_at
+    });
+  }
+
+  // Without a timestamp a delayed Riley retry looks just like a loop-back
+  // the workflow allows, so only a timestamped or forced update may go back
+  if (
+    by.source === 'riley' &&
+    !eventAt &&
+    !force &&
+    linkData &&
+    current_status &&
+    isEarlierStep(workflow, linkData.current_status, current_status)
+  ) {
+    return reply(409, {
+      error: 'Out-of-order update',
+      message: `Moving order ${order_number} back from "${linkData.current_status}" to "${current_status}" requires event_timestamp`,
+      current_status: linkData.current_status
+    });
+  }
+
+  if (linkData && current_status && !canTransition(workflow, linkData.current_status, current_status)) {
+    if (!force) {
+      const previousStatus = linkData.current_status;
+      return reply(409, {
+        error: 'Invalid status transition',
+        message: `Cannot move order ${order_number} from "${previousStatus}" to "${current_status}"`,
+        current_status: previousStatus,
+        allowed_transitions: allowedTransitions(workflow, previousStatus)
+      });
+    }
+    console.warn(`[UPDATE] ⚠️ Forcing transition ${linkData.current_status} -> ${current_status}`);
+  }
+
+  if (!linkData) {
+    console.log(`[UPDATE] Creating new order entry: ${order_number} (workflow: ${workflow.id})`);
+    linkData = {
+      url_upload: '',
+      url_delivery: '',
+      url_revision: '',
+      current_status: current_status || workflow.steps[0].id,
+      product_name: product_name,
+      workflow_id: workflow.id
+    };
+  }
+
+  // Update status
+  if (current_status) {
+    linkData.current_status = current_status;
+    console.log(`[UPDATE] ✅ Updated status to: ${current_status}`);
+  }
+
+  // Update product name
+  if (product_name) {
+    linkData.product_name = product_name;
+    console.log(`[UPDATE] ✅ Updated product name: ${product_name}`);
+  }
+
+  const changedAt = new Date().toISOString();
+
+  // Update URL based on status
+  const step = current_status ? getStep(workflow, current_status) : undefined;
+  if (step?.rounds) {
+    const revision = applyRevisionRound(linkData, step, {
+      entering: !previousData || previousData.current_status !== current_status,
+      round: revision_round,
+      url: linkUrl || undefined,
+      timestamp: changedAt,
+      force: Boolean(force)
+    });
+
+    if (revision.error) {
+      return reply(revision.error.status, {
+        error: 'Invalid revision round',
+        message: revision.error.message,
+        revisions: previousData?.revisions ?? []
+      });
+    }
+    console.log(`[UPDATE] ✅ Recorded revision round ${revision.round!.round}`);
+  } else if (linkUrl && step?.url_slot) {
+    setSlotUrl(linkData, step.url_slot, linkUrl);
+    console.log(`[UPDATE] ✅ Updated ${step.url_slot}`);
+  }
+
+  if (eventAt) {
+    linkData.last_event_at = eventAt;
+  }
+  if (!previousData || previousData.current_status !== linkData.current_status) {
+    linkData.status_timestamps = {
+      ...linkData.status_timestamps,
+      [linkData.current_status]: changedAt
+    };
+  }
+
+  const historyEvents = diffOrderLinkData(order_number, previousData, linkData, by.source, {
+    forced: Boolean(force),
+    timestamp: changedAt,
+    actor: by.actor
+  });
+
+  linkData = await store.put(order_number, linkData);
+  await getOrderHistoryStore().append(historyEvents);
+  await dispatchOrderEvents(historyEvents, linkData, { deliverNow: options.deliverWebhooksNow });
+
+  // Looked up before tagging so addShopifyOrderTag is served from the cache
+  const { shopify, status: shopifyStatus } = await getShopifySnapshot(order_number, linkData);
+
+  const notification = await notifyCustomer(order_number, linkData, shopify);
+
+  // ===== TRIGGER SHOPIFY FLOW WHEN ORDER COMPLETE =====
+  let shopifyTag: { status: 'added' | 'queued'; outbox_id?: string; error?: string; reason?: string } | null = null;
+
+  if (current_status === COMPLETE_STATUS) {
+    console.log(`\n🎯 [FLOW TRIGGER] Order ${order_number} is COMPLETE!`);
+    console.log(`🎯 [FLOW TRIGGER] Attempting to add Shopify tag...`);
+    
+    const tagResult = await addShopifyOrderTag(order_number, COMPLETION_TAG);
+    
+    if (tagResult.success) {
+      shopifyTag = { status: 'added' };
+      console.log(`✅ [FLOW TRIGGER] SUCCESS! Tag added to Shopify order`);
+      console.log(`✅ [FLOW TRIGGER] Shopify Flow should trigger email now`);
+      console.log(`✅ [FLOW TRIGGER] Customer will receive completion email\n`);
+    } else {
+      console.warn(`⚠️ [FLOW TRIGGER] FAILED to add tag: ${tagResult.error}`);
+      console.warn(`⚠️ [FLOW TRIGGER] Queued for retry - Shopify Flow will trigger once it succeeds\n`);
+
+      const entry = await getTagOutbox().enqueue(order_number, COMPLETION_TAG, { attempts: 1, error: tagResult.error });
+      shopifyTag = { status: 'queued', outbox_id: entry.id, error: tagResult.error, reason: tagResult.reason };
+    }
+  }
+
+  // Build response
+  // Determine which URL to return based on current status
+  const currentSlot = getStep(workflow, linkData.current_status)?.url_slot;
+  const urlLinkForResponse = currentSlot
+    ? getSlotUrl(linkData, currentSlot)
+    : linkData.url_delivery;
+
+  const order = { ...buildOrder(order_number, linkData, shopify, urlLinkForResponse), shopify_status: shopifyStatus };
+
+  console.log(`[UPDATE] ✅ Order ${order_number} updated\n`);
+
+  return reply(200, {
+    success: true,
+    message: 'Order status updated successfully',
+    shopify_tag_added: shopifyTag?.status === 'added',
+    ...(shopifyTag ? { shopify_tag: shopifyTag } : {}),
+    ...(notification ? { notification } : {}),
+    order: order
+  });
+}
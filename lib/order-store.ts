@@ -0,0 +1,56 @@
+import type { OrderLinkData, OrderRecord } from './types';
+import { getStorageBackend, type StorageBackend } from './storage';
+
+const ORDER_KEY_PREFIX = 'order:';
+const ORDER_INDEX_KEY = 'orders';
+
+/**
+ * Persistence for per-order tracking data (links, status, product name),
+ * keyed by order number including the leading `#`.
+ */
+export interface OrderStore {
+  get(orderNumber: string): Promise<OrderLinkData | null>;
+  put(orderNumber: string, data: OrderLinkData): Promise<OrderLinkData>;
+  list(): Promise<OrderRecord[]>;
+  delete(orderNumber: string): Promise<boolean>;
+}
+
+export function createOrderStore(backend: StorageBackend): OrderStore {
+  const keyFor = (orderNumber: string) => `${ORDER_KEY_PREFIX}${orderNumber}`;
+
+  return {
+    async get(orderNumber) {
+      return backend.get<OrderLinkData>(keyFor(orderNumber));
+    },
+
+    async put(orderNumber, data) {
+      const record: OrderLinkData = { ...data, updated_at: new Date().toISOString() };
+      await backend.set(keyFor(orderNumber), record);
+      await backend.sadd(ORDER_INDEX_KEY, orderNumber);
+      return record;
+    },
+
+    async list() {
+      const orderNumbers = await backend.smembers(ORDER_INDEX_KEY);
+      const records = await Promise.all(
+        orderNumbers.map(async (orderNumber) => {
+          const data = await backend.get<OrderLinkData>(keyFor(orderNumber));
+          return data ? { order_number: orderNumber, ...data } : null;
+        })
+      );
+
+      return records
+        .filter((record): record is OrderRecord => record !== null)
+        .sort((a, b) => a.order_number.localeCompare(b.order_number, undefined, { numeric: true }));
+    },
+
+    async delete(orderNumber) {
+      await backend.srem(ORDER_INDEX_KEY, orderNumber);
+      return backend.del(keyFor(orderNumber));
+    }
+  };
+}
+
+export function getOrderStore(): OrderStore {
+  return createOrderStore(getStorageBackend());
+}
@@ -0,0 +1,64 @@
+import type { OrderLinkData, RevisionRound } from './types';
+import type { WorkflowStep } from './workflows';
+
+export interface RevisionUpdate {
+  /** True when the order is entering the revision step from another status */
+  entering: boolean;
+  /** Explicit round number from Riley; otherwise derived from `entering` */
+  round?: number;
+  url?: string;
+  timestamp: string;
+  /** Admin override for the workflow's `max_rounds` cap */
+  force?: boolean;
+}
+
+export interface RevisionResult {
+  round?: RevisionRound;
+  error?: { status: 400 | 409; message: string };
+}
+
+/**
+ * Records a revision round on the order. Entering the revision step opens the
+ * next round; re-posting while already in it updates the latest round unless
+ * Riley names a round explicitly. `url_revision` always mirrors the latest
+ * round so older clients keep working.
+ */
+export function applyRevisionRound(
+  linkData: OrderLinkData,
+  step: WorkflowStep,
+  update: RevisionUpdate
+): RevisionResult {
+  const rounds = [...(linkData.revisions ?? [])];
+  const latest = rounds.length;
+  const target = update.round ?? (update.entering || latest === 0 ? latest + 1 : latest);
+
+  if (!Number.isInteger(target) || target < 1 || target > latest + 1) {
+    return { error: { status: 400, message: `revision_round must be between 1 and ${latest + 1}` } };
+  }
+
+  if (target > latest && step.max_rounds && target > step.max_rounds && !update.force) {
+    return {
+      error: {
+        status: 409,
+        message: `Revision limit reached: at most ${step.max_rounds} rounds are allowed for this product`
+      }
+    };
+  }
+
+  let round: RevisionRound;
+  if (target > latest) {
+    round = { round: target, url: update.url ?? '', created_at: update.timestamp };
+    rounds.push(round);
+  } else {
+    round = { ...rounds[target - 1] };
+    if (update.url !== undefined && update.url !== round.url) {
+      round.url = update.url;
+      round.updated_at = update.timestamp;
+    }
+    rounds[target - 1] = round;
+  }
+
+  linkData.revisions = rounds;
+  linkData.url_revision = rounds[rounds.length - 1].url;
+  return { round };
+}
@@ -0,0 +1,48 @@
+import { getStorageBackend, type StorageBackend } from './storage';
+import type { ShopifyOrderSnapshot } from './shopify';
+
+const CACHE_KEY_PREFIX = 'shopify-order:';
+const DEFAULT_TTL_SECONDS = 5 * 60;
+
+/**
+ * Short-lived copies of Shopify order lookups, keyed by order name, so repeat
+ * reads within a request burst don't each cost a Shopify call. Entries are
+ * dropped when we write a tag or Shopify tells us the order changed.
+ */
+export interface ShopifyOrderCache {
+  get(orderName: string): Promise<ShopifyOrderSnapshot | null>;
+  set(orderName: string, snapshot: ShopifyOrderSnapshot): Promise<void>;
+  invalidate(orderName: string): Promise<void>;
+}
+
+// "1001" and "#1001" are the same order
+function normalizeOrderName(orderName: string): string {
+  return orderName.startsWith('#') ? orderName : `#${orderName}`;
+}
+
+export function createShopifyOrderCache(
+  backend: StorageBackend,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS
+): ShopifyOrderCache {
+  const keyFor = (orderName: string) => `${CACHE_KEY_PREFIX}${normalizeOrderName(orderName)}`;
+
+  return {
+    async get(orderName) {
+      return backend.get<ShopifyOrderSnapshot>(keyFor(orderName));
+    },
+
+    async set(orderName, snapshot) {
+      await backend.set(keyFor(orderName), snapshot, { ttlSeconds });
+    },
+
+    async invalidate(orderName) {
+      await backend.del(keyFor(orderName));
+    }
+  };
+}
+
+/** `SHOPIFY_CACHE_TTL_SECONDS` overrides the 5 minute default */
+export function getShopifyOrderCache(): ShopifyOrderCache {
+  const ttl = Number(process.env.SHOPIFY_CACHE_TTL_SECONDS);
+  return createShopifyOrderCache(getStorageBackend(), ttl > 0 ? ttl : DEFAULT_TTL_SECONDS);
+}
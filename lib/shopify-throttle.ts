@@ -0,0 +1,76 @@
+/**
+ * Client-side mirror of Shopify's leaky-bucket rate limit. Every call to a
+ * store in this process draws from one bucket, and each GraphQL response
+ * re-syncs it with the bucket Shopify reports, which is shared by every
+ * instance using the token.
+ */
+export interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+export interface LeakyBucket {
+  /** Resolves once `cost` points are available, then spends them */
+  acquire(cost: number): Promise<void>;
+  sync(status: ThrottleStatus): void;
+  /** Stops all callers until `ms` from now, e.g. after a Retry-After */
+  pause(ms: number): void;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Full jitter: a random delay up to the exponential ceiling, so instances that
+// failed together don't retry together
+export function backoffWithJitter(attempt: number, baseMs: number = 500, maxMs: number = 10000): number {
+  return Math.random() * Math.min(maxMs, baseMs * Math.pow(2, attempt));
+}
+
+export function createLeakyBucket(initial: ThrottleStatus): LeakyBucket {
+  let maximum = initial.maximumAvailable;
+  let available = initial.currentlyAvailable;
+  let restoreRate = initial.restoreRate;
+  let updatedAt = Date.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    available = Math.min(maximum, available + ((now - updatedAt) / 1000) * restoreRate);
+    updatedAt = now;
+  };
+
+  return {
+    async acquire(cost) {
+      const needed = Math.min(cost, maximum);
+
+      for (;;) {
+        const pauseMs = pausedUntil - Date.now();
+        if (pauseMs > 0) {
+          await sleep(pauseMs);
+          continue;
+        }
+
+        refill();
+        if (available >= needed) {
+          available -= needed;
+          return;
+        }
+
+        await sleep(((needed - available) / restoreRate) * 1000);
+      }
+    },
+
+    sync(status) {
+      maximum = status.maximumAvailable;
+      available = status.currentlyAvailable;
+      restoreRate = status.restoreRate;
+      updatedAt = Date.now();
+    },
+
+    pause(ms) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    }
+  };
+}
@@ -0,0 +1,526 @@
+/**
+ * Shopify Admin GraphQL client shared by the API routes, plus the order
+ * snapshot we keep on tracking records.
+ *
+ * Credentials are the current store's from the registry in lib/stores.ts;
+ * the Admin API version comes from `SHOPIFY_API_VERSION`. Calls to a store
+ * from one function instance share a rate-limit bucket and retry transient
+ * failures up to `SHOPIFY_MAX_RETRIES` times (default 4), waiting at most
+ * `SHOPIFY_MAX_RETRY_WAIT_MS` in total (default 8000) so a request fails
+ * with a 503 rather than outliving its function timeout.
+ */
+
+import { getShopifyOrderCache } from './shopify-cache';
+import { backoffWithJitter, createLeakyBucket, LeakyBucket, sleep, ThrottleStatus } from './shopify-throttle';
+import { getCurrentStore } from './stores';
+
+const DEFAULT_API_VERSION = '2025-10';
+
+/** Shopify Flow sends the completion email when this tag is added */
+export const COMPLETION_TAG = 'bella-order-complete';
+
+export interface ShopifyLineItem {
+  id: string;
+  name: string;
+  title: string;
+  quantity: number;
+  price: string;
+  product_id: string | null;
+  variant_id: string | null;
+}
+
+/**
+ * The subset of a Shopify order we keep on the tracking record, refreshed by
+ * the orders/create and orders/updated webhooks so GET requests don't need a
+ * Shopify round trip.
+ */
+export interface ShopifyOrderSnapshot {
+  order_id: string;
+  /** GraphQL global ID, needed for mutations */
+  admin_graphql_api_id?: string;
+  order_number: string;
+  financial_status: string | null;
+  fulfillment_status: string | null;
+  total_price: string;
+  created_at: string;
+  updated_at: string;
+  email: string;
+  customer_name: string;
+  tags?: string[];
+  line_items: ShopifyLineItem[];
+}
+
+export interface TagResult {
+  success: boolean;
+  error?: string;
+  /** Why tagging failed, so callers can tell a missing order from an outage */
+  reason?: 'not_configured' | 'not_found' | 'unavailable' | 'rejected';
+}
+
+/**
+ * Shopify could not answer: an outage, throttling that outlasted our retries,
+ * or rejected credentials. Lookups report a missing order as null instead.
+ */
+export class ShopifyUnavailableError extends Error {
+  constructor(message: string, readonly status: number | null = null) {
+    super(message);
+    this.name = 'ShopifyUnavailableError';
+  }
+}
+
+export interface ShopifyConfig {
+  store: string;
+  accessToken: string;
+  apiVersion: string;
+}
+
+export interface OrderListOptions {
+  /** Page size, 1-250 */
+  limit: number;
+  /** Shopify search syntax, e.g. `financial_status:paid created_at:>=2024-01-01` */
+  query?: string;
+  after?: string;
+  before?: string;
+}
+
+export interface OrderListPage {
+  orders: ShopifyOrderSnapshot[];
+  next_cursor: string | null;
+  previous_cursor: string | null;
+}
+
+export function getShopifyConfig(): ShopifyConfig | null {
+  const store = getCurrentStore();
+
+  if (!store?.access_token) {
+    return null;
+  }
+
+  return {
+    store: store.shop,
+    accessToken: store.access_token,
+    apiVersion: process.env.SHOPIFY_API_VERSION || DEFAULT_API_VERSION
+  };
+}
+
+// ===== GRAPHQL =====
+
+const ORDER_FIELDS = `
+  id
+  legacyResourceId
+  name
+  createdAt
+  updatedAt
+  email
+  displayFinancialStatus
+  displayFulfillmentStatus
+  tags
+  totalPriceSet { shopMoney { amount } }
+  customer { firstName lastName email }
+  lineItems(first: 50) {
+    nodes {
+      id
+      name
+      title
+      quantity
+      originalUnitPriceSet { shopMoney { amount } }
+      product { legacyResourceId }
+      variant { legacyResourceId }
+    }
+  }
+`;
+
+const ORDER_BY_NAME_QUERY = `
+  query OrderByName($query: String!) {
+    orders(first: 1, query: $query) {
+      nodes { ${ORDER_FIELDS} }
+    }
+  }
+`;
+
+const ORDER_LIST_QUERY = `
+  query OrderList($first: Int, $last: Int, $after: String, $before: String, $query: String) {
+    orders(first: $first, last: $last, after: $after, before: $before, query: $query, sortKey: CREATED_AT, reverse: true) {
+      nodes { ${ORDER_FIELDS} }
+      pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+    }
+  }
+`;
+
+const TAGS_ADD_MUTATION = `
+  mutation TagsAdd($id: ID!, $tags: [String!]!) {
+    tagsAdd(id: $id, tags: $tags) {
+      userErrors { field message }
+    }
+  }
+`;
+
+interface GraphQLOrder {
+  id: string;
+  legacyResourceId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  email: string | null;
+  displayFinancialStatus: string | null;
+  displayFulfillmentStatus: string | null;
+  tags: string[];
+  totalPriceSet: { shopMoney: { amount: string } };
+  customer: { firstName: string | null; lastName: string | null; email: string | null } | null;
+  lineItems: {
+    nodes: {
+      id: string;
+      name: string;
+      title: string;
+      quantity: number;
+      originalUnitPriceSet: { shopMoney: { amount: string } };
+      product: { legacyResourceId: string } | null;
+      variant: { legacyResourceId: string } | null;
+    }[];
+  };
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+// Shopify limits each store separately. The buckets live in this instance
+// only: concurrent functions each keep their own, and the throttle status and
+// THROTTLED errors Shopify returns are what keep them in line. Every bucket
+// starts at the standard-plan figures and takes the real ones from the first
+// response.
+const buckets = new Map<string, LeakyBucket>();
+
+function getBucket(store: string): LeakyBucket {
+  if (!buckets.has(store)) {
+    buckets.set(store, createLeakyBucket({ maximumAvailable: 1000, currentlyAvailable: 1000, restoreRate: 50 }));
+  }
+  return buckets.get(store)!;
+}
+
+// Points reserved before a call whose actual cost we only learn afterwards
+const DEFAULT_QUERY_COST = 50;
+
+function maxRetries(): number {
+  const configured = Number(process.env.SHOPIFY_MAX_RETRIES);
+  return Number.isInteger(configured) && configured >= 0 ? configured : 4;
+}
+
+function maxRetryWaitMs(): number {
+  const configured = Number(process.env.SHOPIFY_MAX_RETRY_WAIT_MS);
+  return configured > 0 ? configured : 8000;
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Runs a GraphQL request against the store's rate-limit bucket, retrying 429s,
+ * 5xx responses, network failures and THROTTLED errors with jittered backoff
+ * (or Shopify's Retry-After when given). Throws ShopifyUnavailableError once
+ * retries or the retry wait budget run out, or Shopify rejects the credentials.
+ */
+export async function shopifyGraphQL<T>(
+  config: ShopifyConfig,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  const bucket = getBucket(config.store);
+  const retries = maxRetries();
+  const waitBudgetMs = maxRetryWaitMs();
+  let waitedMs = 0;
+  let lastError = '';
+  let lastStatus: number | null = null;
+  let retryAfterMs: number | null = null;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const delay = retryAfterMs ?? backoffWithJitter(attempt - 1);
+      if (waitedMs + delay > waitBudgetMs) {
+        throw new ShopifyUnavailableError(
+          `Shopify unavailable: retrying would wait ${Math.round(delay)}ms, past the ${waitBudgetMs}ms budget: ${lastError}`,
+          lastStatus
+        );
+      }
+      waitedMs += delay;
+      console.warn(`[SHOPIFY] ⏳ Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${retries + 1}): ${lastError}`);
+      await sleep(delay);
+    }
+    retryAfterMs = null;
+
+    await bucket.acquire(DEFAULT_QUERY_COST);
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `https://${config.store}/admin/api/${config.apiVersion}/graphql.json`,
+        {
+          method: 'POST',
+          headers: {
+            'X-Shopify-Access-Token': config.accessToken,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ query, variables })
+        }
+      );
+    } catch (error) {
+      lastError = `Network error: ${error instanceof Error ? error.message : String(error)}`;
+      lastStatus = null;
+      continue;
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      lastStatus = response.status;
+      lastError = `Shopify API error: ${response.status}`;
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      // A wait past the budget fails this call; don't hold up everyone else for it
+      if (retryAfterMs !== null && retryAfterMs <= waitBudgetMs) {
+        bucket.pause(retryAfterMs);
+      }
+      continue;
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      const errorText = await response.text();
+      throw new ShopifyUnavailableError(`Shopify rejected the credentials: ${response.status} - ${errorText}`, response.status);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Shopify API error: ${response.status} - ${errorText}`);
+    }
+
+    const payload = await response.json();
+    const cost = payload.extensions?.cost;
+    if (cost?.throttleStatus) {
+      bucket.sync(cost.throttleStatus as ThrottleStatus);
+    }
+
+    const errors: { message: string; extensions?: { code?: string } }[] = payload.errors ?? [];
+
+    if (errors.some(e => e.extensions?.code === 'THROTTLED')) {
+      lastStatus = 429;
+      lastError = 'Shopify GraphQL query throttled';
+      // Wait exactly as long as the bucket needs to refill for this query
+      const status = cost?.throttleStatus;
+      if (status && cost.requestedQueryCost) {
+        retryAfterMs = Math.max(0, (cost.requestedQueryCost - status.currentlyAvailable) / status.restoreRate) * 1000;
+        if (retryAfterMs <= waitBudgetMs) {
+          bucket.pause(retryAfterMs);
+        }
+      }
+      continue;
+    }
+
+    if (errors.length) {
+      throw new Error(`Shopify GraphQL error: ${errors.map(e => e.message).join('; ')}`);
+    }
+
+    return payload.data as T;
+  }
+
+  throw new ShopifyUnavailableError(`Shopify unavailable after ${retries + 1} attempts: ${lastError}`, lastStatus);
+}
+
+// REST reports unfulfilled orders as null and partial fulfilment as "partial"
+function toRestFulfillmentStatus(status: string | null): string | null {
+  switch (status) {
+    case null:
+    case 'UNFULFILLED':
+      return null;
+    case 'PARTIALLY_FULFILLED':
+      return 'partial';
+    default:
+      return status.toLowerCase();
+  }
+}
+
+function fromGraphQLOrder(order: GraphQLOrder): ShopifyOrderSnapshot {
+  return {
+    order_id: order.legacyResourceId,
+    admin_graphql_api_id: order.id,
+    order_number: order.name,
+    financial_status: order.displayFinancialStatus ? order.displayFinancialStatus.toLowerCase() : null,
+    fulfillment_status: toRestFulfillmentStatus(order.displayFulfillmentStatus),
+    total_price: order.totalPriceSet.shopMoney.amount,
+    created_at: order.createdAt,
+    updated_at: order.updatedAt,
+    email: order.email || order.customer?.email || '',
+    customer_name: `${order.customer?.firstName || ''} ${order.customer?.lastName || ''}`.trim(),
+    tags: order.tags,
+    line_items: order.lineItems.nodes.map(item => ({
+      id: item.id,
+      name: item.name,
+      title: item.title,
+      quantity: item.quantity,
+      price: item.originalUnitPriceSet.shopMoney.amount,
+      product_id: item.product?.legacyResourceId ?? null,
+      variant_id: item.variant?.legacyResourceId ?? null
+    }))
+  };
+}
+
+/** Converts a REST/webhook order payload into the cached snapshot */
+export function toShopifySnapshot(order: any): ShopifyOrderSnapshot {
+  return {
+    order_id: String(order.id),
+    admin_graphql_api_id: order.admin_graphql_api_id,
+    order_number: order.name,
+    financial_status: order.financial_status ?? null,
+    fulfillment_status: order.fulfillment_status ?? null,
+    total_price: order.total_price,
+    created_at: order.created_at,
+    updated_at: order.updated_at ?? order.created_at,
+    email: order.email || order.customer?.email || '',
+    customer_name: `${order.customer?.first_name || ''} ${order.customer?.last_name || ''}`.trim(),
+    tags: order.tags ? String(order.tags).split(',').map(tag => tag.trim()).filter(Boolean) : [],
+    line_items: (order.line_items ?? []).map((item: any) => ({
+      id: String(item.id),
+      name: item.name,
+      title: item.title,
+      quantity: item.quantity,
+      price: item.price,
+      product_id: item.product_id != null ? String(item.product_id) : null,
+      variant_id: item.variant_id != null ? String(item.variant_id) : null
+    }))
+  };
+}
+
+// ===== ORDERS =====
+
+/**
+ * Resolves to null when the order doesn't exist (or Shopify isn't configured);
+ * throws ShopifyUnavailableError when Shopify couldn't be asked. Found orders
+ * are served from the lookup cache until it expires or is invalidated.
+ */
+export async function fetchShopifyOrder(orderNumber: string): Promise<ShopifyOrderSnapshot | null> {
+  const config = getShopifyConfig();
+
+  if (!config) {
+    return null;
+  }
+
+  const orderName = orderNumber.startsWith('#') ? orderNumber : `#${orderNumber}`;
+  const cache = getShopifyOrderCache();
+  const cached = await cache.get(orderName);
+
+  if (cached) {
+    return cached;
+  }
+
+  const data = await shopifyGraphQL<{ orders: { nodes: GraphQLOrder[] } }>(
+    config,
+    ORDER_BY_NAME_QUERY,
+    { query: `name:${JSON.stringify(orderName)}` }
+  );
+
+  const order = data.orders.nodes[0];
+  if (!order) {
+    return null;
+  }
+
+  const snapshot = fromGraphQLOrder(order);
+  await cache.set(orderName, snapshot);
+  return snapshot;
+}
+
+export async function listShopifyOrders(options: OrderListOptions): Promise<OrderListPage> {
+  const config = getShopifyConfig();
+
+  if (!config) {
+    throw new Error('Shopify credentials not configured');
+  }
+
+  // Paging backwards needs `last`/`before`; everything else pages forwards
+  const variables = options.before
+    ? { last: options.limit, before: options.before, query: options.query }
+    : { first: options.limit, after: options.after, query: options.query };
+
+  const data = await shopifyGraphQL<{ orders: { nodes: GraphQLOrder[]; pageInfo: PageInfo } }>(
+    config,
+    ORDER_LIST_QUERY,
+    variables
+  );
+  const { nodes, pageInfo } = data.orders;
+
+  return {
+    orders: nodes.map(fromGraphQLOrder),
+    next_cursor: pageInfo.hasNextPage ? pageInfo.endCursor : null,
+    previous_cursor: pageInfo.hasPreviousPage ? pageInfo.startCursor : null
+  };
+}
+
+/**
+ * Adds a tag with `tagsAdd`, which appends server-side, so concurrent writers
+ * can't drop each other's tags the way a read-modify-write of `tags` could.
+ */
+export async function addShopifyOrderTag(
+  orderNumber: string, 
+  tag: string
+): Promise<TagResult> {
+  const config = getShopifyConfig();
+
+  if (!config) {
+    console.warn('Shopify credentials not configured for tagging');
+    return { success: false, error: 'Shopify credentials not configured', reason: 'not_configured' };
+  }
+
+  try {
+    console.log(`[SHOPIFY TAG] Starting tag process for order ${orderNumber}`);
+    
+    // Find the order
+    const order = await fetchShopifyOrder(orderNumber);
+    
+    if (!order || !order.admin_graphql_api_id) {
+      console.warn(`[SHOPIFY TAG] Order ${orderNumber} not found in Shopify`);
+      return { success: false, error: `Order ${orderNumber} not found in Shopify`, reason: 'not_found' };
+    }
+
+    console.log(`[SHOPIFY TAG] Found order ID: ${order.order_id}`);
+
+    if (order.tags?.includes(tag)) {
+      console.log(`[SHOPIFY TAG] Tag "${tag}" already exists on order ${orderNumber}`);
+      return { success: true };
+    }
+
+    const data = await shopifyGraphQL<{ tagsAdd: { userErrors: { field: string[] | null; message: string }[] } }>(
+      config,
+      TAGS_ADD_MUTATION,
+      { id: order.admin_graphql_api_id, tags: [tag] }
+    );
+
+    // The cached copy's tags (and updated_at) are now out of date
+    await getShopifyOrderCache().invalidate(orderNumber);
+
+    const userErrors = data.tagsAdd.userErrors;
+    if (userErrors.length > 0) {
+      const message = userErrors.map(e => e.message).join('; ');
+      console.error(`[SHOPIFY TAG] Failed to update order:`, message);
+      return { success: false, error: message, reason: 'rejected' };
+    }
+
+    console.log(`[SHOPIFY TAG] ✅ Successfully added tag "${tag}" to order ${orderNumber}`);
+    console.log(`[SHOPIFY TAG] 🔔 Shopify Flow should be triggered now!`);
+    return { success: true };
+
+  } catch (error) {
+    console.error('[SHOPIFY TAG] Error adding tag:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      reason: error instanceof ShopifyUnavailableError ? 'unavailable' : undefined
+    };
+  }
+}
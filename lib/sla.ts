@@ -0,0 +1,93 @@
+import type { Workflow, WorkflowStep } from './workflows';
+
+/**
+ * Turnaround targets. Each workflow step may set `sla_hours`, the time an
+ * order is expected to spend in it; steps without one are never overdue.
+ * Like lib/workflows.ts this is shared with the dashboard, so it must stay
+ * free of server-only imports.
+ */
+
+/** Fraction of the target after which an order counts as approaching it */
+export const SLA_WARNING_RATIO = 0.8;
+
+export type SlaState = 'ok' | 'approaching' | 'overdue';
+
+export interface SlaStatus {
+  status: string;
+  sla_hours: number;
+  entered_at: string;
+  age_hours: number;
+  /** Negative once the target has passed */
+  remaining_hours: number;
+  state: SlaState;
+}
+
+export interface StageAge {
+  status: string;
+  entered_at: string;
+  /** Time until the next status was entered, or until now for the current one */
+  hours: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function roundHours(ms: number): number {
+  return Math.round((ms / HOUR_MS) * 10) / 10;
+}
+
+export function hasSla(step: WorkflowStep | undefined): step is WorkflowStep & { sla_hours: number } {
+  return !!step && typeof step.sla_hours === 'number' && step.sla_hours > 0;
+}
+
+/** null when the step has no target or we don't know when the order entered it */
+export function getSlaStatus(
+  step: WorkflowStep | undefined,
+  enteredAt: string | null | undefined,
+  options: { now?: number; warningRatio?: number } = {}
+): SlaStatus | null {
+  if (!hasSla(step) || !enteredAt) {
+    return null;
+  }
+
+  const entered = new Date(enteredAt).getTime();
+  if (isNaN(entered)) {
+    return null;
+  }
+
+  const ageMs = Math.max((options.now ?? Date.now()) - entered, 0);
+  const targetMs = step.sla_hours * HOUR_MS;
+  const warningRatio = options.warningRatio ?? SLA_WARNING_RATIO;
+
+  return {
+    status: step.id,
+    sla_hours: step.sla_hours,
+    entered_at: enteredAt,
+    age_hours: roundHours(ageMs),
+    remaining_hours: roundHours(targetMs - ageMs),
+    state: ageMs >= targetMs ? 'overdue' : ageMs >= targetMs * warningRatio ? 'approaching' : 'ok'
+  };
+}
+
+/**
+ * How long the order spent in each status it has entered, oldest first.
+ * Only the latest entry into each status is recorded, so an order that loops
+ * back (revision -> in progress) reports the most recent visit.
+ */
+export function getStageAges(
+  workflow: Workflow,
+  statusTimestamps: { [status: string]: string } | undefined,
+  now: number = Date.now()
+): StageAge[] {
+  const entries = Object.entries(statusTimestamps ?? {})
+    .filter(([status, enteredAt]) => workflow.steps.some(step => step.id === status) && !isNaN(new Date(enteredAt).getTime()))
+    .sort((a, b) => a[1].localeCompare(b[1]));
+
+  return entries.map(([status, enteredAt], index) => {
+    const until = index + 1 < entries.length ? new Date(entries[index + 1][1]).getTime() : now;
+    return {
+      status,
+      entered_at: enteredAt,
+      hours: roundHours(Math.max(until - new Date(enteredAt).getTime(), 0))
+    };
+  });
+}
@@ -0,0 +1,216 @@
+import { kv } from '@vercel/kv';
+import { getStoreNamespace } from './stores';
+
+export interface SetOptions {
+  /** Expire the key after this many seconds */
+  ttlSeconds?: number;
+  /** Only write when the key does not exist yet (Redis `NX`) */
+  onlyIfAbsent?: boolean;
+}
+
+/**
+ * Key-value primitives every persisted store is built on. Vercel KV backs
+ * production; the in-memory backend is for local development and tests and
+ * loses its data whenever the process restarts.
+ */
+export interface StorageBackend {
+  get<T>(key: string): Promise<T | null>;
+  /** Resolves to false when `onlyIfAbsent` prevented the write */
+  set<T>(key: string, value: T, options?: SetOptions): Promise<boolean>;
+  del(key: string): Promise<boolean>;
+  sadd(key: string, member: string): Promise<void>;
+  srem(key: string, member: string): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+  rpush<T>(key: string, ...values: T[]): Promise<void>;
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  /** Keeps only `start`..`stop` (inclusive, negative counts from the end) */
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  /** Atomically increments a counter, starting from 0 */
+  incr(key: string): Promise<number>;
+}
+
+export function createKvBackend(): StorageBackend {
+  return {
+    async get<T>(key: string) {
+      return (await kv.get<T>(key)) ?? null;
+    },
+    async set<T>(key: string, value: T, options: SetOptions = {}) {
+      const result = options.onlyIfAbsent
+        ? await kv.set(key, value, options.ttlSeconds ? { nx: true, ex: options.ttlSeconds } : { nx: true })
+        : await kv.set(key, value, options.ttlSeconds ? { ex: options.ttlSeconds } : undefined);
+      return result !== null;
+    },
+    async del(key: string) {
+      return (await kv.del(key)) > 0;
+    },
+    async sadd(key: string, member: string) {
+      await kv.sadd(key, member);
+    },
+    async srem(key: string, member: string) {
+      await kv.srem(key, member);
+    },
+    async smembers(key: string) {
+      return kv.smembers(key);
+    },
+    async rpush<T>(key: string, ...values: T[]) {
+      if (values.length > 0) {
+        await kv.rpush(key, ...values);
+      }
+    },
+    async lrange<T>(key: string, start: number, stop: number) {
+      return kv.lrange<T>(key, start, stop);
+    },
+    async ltrim(key: string, start: number, stop: number) {
+      await kv.ltrim(key, start, stop);
+    },
+    async incr(key: string) {
+      return kv.incr(key);
+    }
+  };
+}
+
+// Redis semantics: negative indexes count from the end, stop is inclusive
+function listRange(length: number, start: number, stop: number): [number, number] {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : stop;
+  return [from, to + 1];
+}
+
+export function createMemoryBackend(): StorageBackend {
+  const values = new Map<string, string>();
+  const expiries = new Map<string, number>();
+  const sets = new Map<string, Set<string>>();
+  const lists = new Map<string, string[]>();
+
+  const hasLiveValue = (key: string) => {
+    const expiresAt = expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      values.delete(key);
+      expiries.delete(key);
+    }
+    return values.has(key);
+  };
+
+  return {
+    async get<T>(key: string) {
+      if (!hasLiveValue(key)) {
+        return null;
+      }
+      const raw = values.get(key);
+      return raw === undefined ? null : (JSON.parse(raw) as T);
+    },
+    async set<T>(key: string, value: T, options: SetOptions = {}) {
+      if (options.onlyIfAbsent && hasLiveValue(key)) {
+        return false;
+      }
+      // Round-trip through JSON so callers can't mutate stored values by reference
+      values.set(key, JSON.stringify(value));
+      if (options.ttlSeconds) {
+        expiries.set(key, Date.now() + options.ttlSeconds * 1000);
+      } else {
+        expiries.delete(key);
+      }
+      return true;
+    },
+    async del(key: string) {
+      expiries.delete(key);
+      const deleted = [values.delete(key), sets.delete(key), lists.delete(key)];
+      return deleted.includes(true);
+    },
+    async sadd(key: string, member: string) {
+      if (!sets.has(key)) {
+        sets.set(key, new Set());
+      }
+      sets.get(key)!.add(member);
+    },
+    async srem(key: string, member: string) {
+      sets.get(key)?.delete(member);
+    },
+    async smembers(key: string) {
+      return Array.from(sets.get(key) ?? []);
+    },
+    async rpush<T>(key: string, ...items: T[]) {
+      if (!lists.has(key)) {
+        lists.set(key, []);
+      }
+      lists.get(key)!.push(...items.map(item => JSON.stringify(item)));
+    },
+    async lrange<T>(key: string, start: number, stop: number) {
+      const list = lists.get(key) ?? [];
+      return list.slice(...listRange(list.length, start, stop)).map(raw => JSON.parse(raw) as T);
+    },
+    async ltrim(key: string, start: number, stop: number) {
+      const list = lists.get(key);
+      if (list) {
+        lists.set(key, list.slice(...listRange(list.length, start, stop)));
+      }
+    },
+    async incr(key: string) {
+      // Stored like any other value so `get` reads it back, as in Redis
+      const next = (hasLiveValue(key) ? Number(JSON.parse(values.get(key)!)) : 0) + 1;
+      values.set(key, JSON.stringify(next));
+      return next;
+    }
+  };
+}
+
+/**
+ * Prefixes every key with `shop:<domain>:` so stores sharing one database
+ * can't see each other's records, e.g. two stores' `#1002`.
+ */
+export function createNamespacedBackend(inner: StorageBackend, namespace: string): StorageBackend {
+  const scoped = (key: string) => `shop:${namespace}:${key}`;
+
+  return {
+    get: key => inner.get(scoped(key)),
+    set: (key, value, options) => inner.set(scoped(key), value, options),
+    del: key => inner.del(scoped(key)),
+    sadd: (key, member) => inner.sadd(scoped(key), member),
+    srem: (key, member) => inner.srem(scoped(key), member),
+    smembers: key => inner.smembers(scoped(key)),
+    rpush: (key, ...values) => inner.rpush(scoped(key), ...values),
+    lrange: (key, start, stop) => inner.lrange(scoped(key), start, stop),
+    ltrim: (key, start, stop) => inner.ltrim(scoped(key), start, stop),
+    incr: key => inner.incr(scoped(key))
+  };
+}
+
+let backend: StorageBackend | null = null;
+const namespacedBackends = new Map<string, StorageBackend>();
+
+function getSharedBackend(): StorageBackend {
+  if (backend) {
+    return backend;
+  }
+
+  const configured = process.env.STORAGE_BACKEND;
+  const useKv = configured
+    ? configured === 'kv'
+    : Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+  if (!useKv) {
+    console.warn('[STORAGE] Using in-memory backend - data will be lost on restart');
+  }
+
+  backend = useKv ? createKvBackend() : createMemoryBackend();
+  return backend;
+}
+
+/**
+ * Returns the backend for the current store (see lib/stores.ts). `STORAGE_BACKEND`
+ * forces `kv` or `memory`; otherwise KV is used whenever its credentials are
+ * present. Every store shares it, with keys outside the default store
+ * namespaced by shop.
+ */
+export function getStorageBackend(): StorageBackend {
+  const shared = getSharedBackend();
+  const namespace = getStoreNamespace();
+  if (!namespace) {
+    return shared;
+  }
+
+  if (!namespacedBackends.has(namespace)) {
+    namespacedBackends.set(namespace, createNamespacedBackend(shared, namespace));
+  }
+  return namespacedBackends.get(namespace)!;
+}
@@ -0,0 +1,234 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getHeader } from './http';
+
+/**
+ * Registry of the Shopify stores this deployment serves, keyed by their
+ * `*.myshopify.com` domain. `SHOPIFY_STORES` holds a JSON array of
+ * `{ shop, name?, access_token, webhook_secret?, email_from?, default? }`;
+ * the single-store `SHOPIFY_STORE` / `SHOPIFY_ACCESS_TOKEN` /
+ * `SHOPIFY_WEBHOOK_SECRET` variables still describe one store on their own.
+ *
+ * Each request runs against one store (see withStore), and everything
+ * persisted is namespaced by it. The default store keeps the original
+ * un-prefixed keys, so records from before multi-store support stay where
+ * they are; keep it stable once a second store is added.
+ */
+
+export interface StoreConfig {
+  /** Normalized `<name>.myshopify.com` domain */
+  shop: string;
+  name: string;
+  access_token?: string;
+  webhook_secret?: string;
+  email_from?: string;
+  default?: boolean;
+}
+
+/** What the dashboard may see: no credentials */
+export interface StoreSummary {
+  shop: string;
+  name: string;
+  default: boolean;
+}
+
+export const SHOP_HEADER = 'x-bella-shop';
+
+/** `https://Bella-Art.myshopify.com/` and `bella-art` are both `bella-art.myshopify.com` */
+export function normalizeShopDomain(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const host = value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  if (!/^[a-z0-9][a-z0-9.-]*$/.test(host)) {
+    return null;
+  }
+  return host.includes('.') ? host : `${host}.myshopify.com`;
+}
+
+function getRegisteredStores(): StoreConfig[] {
+  const raw = process.env.SHOPIFY_STORES;
+  if (!raw) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    console.error('[STORES] SHOPIFY_STORES is not valid JSON');
+    return [];
+  }
+
+  if (!Array.isArray(entries)) {
+    console.error('[STORES] SHOPIFY_STORES must be a JSON array');
+    return [];
+  }
+
+  const stores: StoreConfig[] = [];
+  for (const entry of entries) {
+    const shop = normalizeShopDomain(entry?.shop);
+    if (!shop || stores.some(store => store.shop === shop)) {
+      console.warn(`[STORES] Skipping invalid or duplicate SHOPIFY_STORES entry ${JSON.stringify(entry?.shop ?? null)}`);
+      continue;
+    }
+    stores.push({
+      shop,
+      name: typeof entry.name === 'string' && entry.name ? entry.name : shop,
+      access_token: typeof entry.access_token === 'string' ? entry.access_token : undefined,
+      webhook_secret: typeof entry.webhook_secret === 'string' ? entry.webhook_secret : undefined,
+      email_from: typeof entry.email_from === 'string' ? entry.email_from : undefined,
+      default: entry.default === true
+    });
+  }
+  return stores;
+}
+
+/**
+ * Every configured store, the default first: the `SHOPIFY_STORE` store, else
+ * the entry marked `default`, else the first entry. The single-store
+ * variables fill in whatever a registry entry for the same shop leaves out.
+ */
+export function getStores(): StoreConfig[] {
+  const stores = getRegisteredStores();
+  const legacyShop = normalizeShopDomain(process.env.SHOPIFY_STORE);
+
+  if (legacyShop) {
+    const existing = stores.find(store => store.shop === legacyShop);
+    const legacy: StoreConfig = {
+      shop: legacyShop,
+      name: existing?.name ?? legacyShop,
+      access_token: existing?.access_token ?? process.env.SHOPIFY_ACCESS_TOKEN,
+      webhook_secret: existing?.webhook_secret ?? process.env.SHOPIFY_WEBHOOK_SECRET,
+      email_from: existing?.email_from,
+      default: true
+    };
+    return [legacy, ...stores.filter(store => store.shop !== legacyShop).map(store => ({ ...store, default: false }))];
+  }
+
+  const defaultIndex = Math.max(stores.findIndex(store => store.default), 0);
+  return stores
+    .map((store, index) => ({ ...store, default: index === defaultIndex }))
+    .sort((a, b) => Number(b.default) - Number(a.default));
+}
+
+export function getStore(shop: string): StoreConfig | null {
+  const normalized = normalizeShopDomain(shop);
+  return getStores().find(store => store.shop === normalized) ?? null;
+}
+
+export function getDefaultStore(): StoreConfig | null {
+  return getStores()[0] ?? null;
+}
+
+export function summarizeStore(store: StoreConfig): StoreSummary {
+  return { shop: store.shop, name: store.name, default: !!store.default };
+}
+
+// ===== REQUEST CONTEXT =====
+
+const storeContext = new AsyncLocalStorage<StoreConfig>();
+
+/** Runs `fn` (and everything it awaits or schedules) against `store` */
+export function runWithStore<T>(store: StoreConfig, fn: () => T): T {
+  return storeContext.run(store, fn);
+}
+
+/** The store of the running request, or the default outside one */
+export function getCurrentStore(): StoreConfig | null {
+  return storeContext.getStore() ?? getDefaultStore();
+}
+
+/**
+ * The storage namespace of the current store: null for the default store
+ * (and when no store is configured at all), otherwise its shop domain.
+ */
+export function getStoreNamespace(): string | null {
+  const store = getCurrentStore();
+  return store && !store.default ? store.shop : null;
+}
+
+function lookupStore(requested: unknown): { store: StoreConfig | null; error?: string } {
+  const store = typeof requested === 'string' ? getStore(requested) : null;
+  return store ? { store } : { store: null, error: `Unknown shop ${String(requested)}` };
+}
+
+function isNamed(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * The store a request is for: `?shop=`, then the `X-Bella-Shop` header, then
+ * Shopify's `X-Shopify-Shop-Domain`, then the default. `error` is set when
+ * the request names a shop that isn't registered.
+ */
+export function resolveRequestStore(req: VercelRequest): { store: StoreConfig | null; error?: string } {
+  const requested = [req.query.shop, getHeader(req, SHOP_HEADER), getHeader(req, 'x-shopify-shop-domain')].find(isNamed);
+  return requested ? lookupStore(requested) : { store: getDefaultStore() };
+}
+
+/**
+ * The store a parsed JSON body (Riley's payload) names in `shop` or
+ * `shop_domain`; `store` is null when it names none.
+ */
+export function resolvePayloadStore(body: any): { store: StoreConfig | null; error?: string } {
+  const requested = [body?.shop, body?.shop_domain].find(isNamed);
+  return requested ? lookupStore(requested) : { store: null };
+}
+
+/**
+ * Moves the rest of the running request onto `store`, for handlers that only
+ * learn the shop from a body they parse themselves. Call it after the
+ * handler's first await so the switch can't leak back into its caller.
+ */
+export function switchStore(store: StoreConfig): void {
+  storeContext.enterWith(store);
+}
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+/**
+ * Wraps an API handler so it runs against the store the request names.
+ * Preflight requests pass straight through, and with no store configured the
+ * handler runs unscoped, as a single-store deployment always has.
+ */
+export function withStore(handler: Handler): Handler {
+  return (req, res) => {
+    if (req.method === 'OPTIONS') {
+      return handler(req, res);
+    }
+
+    const { store, error } = resolveRequestStore(req);
+    if (error) {
+      // So storefront scripts can read the error rather than a CORS failure
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      return res.status(400).json({ error: 'Unknown shop', message: error });
+    }
+    return store ? runWithStore(store, () => handler(req, res)) : handler(req, res);
+  };
+}
+
+/** Runs `fn` once per configured store, for crons that work through every store's queue */
+export async function forEachStore<T>(fn: (store: StoreConfig | null) => Promise<T>): Promise<{ shop: string | null; result: T }[]> {
+  const stores = getStores();
+  if (stores.length === 0) {
+    return [{ shop: null, result: await fn(null) }];
+  }
+
+  const results: { shop: string | null; result: T }[] = [];
+  for (const store of stores) {
+    results.push({ shop: store.shop, result: await runWithStore(store, () => fn(store)) });
+  }
+  return results;
+}
+
+/** Adds up per-store run summaries field by field */
+export function sumCounts<T extends object>(counts: T[]): T {
+  const total = {} as Record<string, number>;
+  for (const count of counts) {
+    for (const [key, value] of Object.entries(count)) {
+      total[key] = (total[key] ?? 0) + Number(value);
+    }
+  }
+  return total as T;
+}
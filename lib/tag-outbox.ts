@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { getStorageBackend, type StorageBackend } from './storage';
+import type { TagResult } from './shopify';
+import { getCurrentStore } from './stores';
+
+const ENTRY_KEY_PREFIX = 'tag-outbox:';
+const PENDING_KEY = 'tag-outbox:pending';
+const DEAD_KEY = 'tag-outbox:dead';
+
+const BASE_DELAY_SECONDS = 60;
+const MAX_DELAY_SECONDS = 6 * 60 * 60;
+const DEFAULT_MAX_ATTEMPTS = 8;
+
+/**
+ * A Shopify tag write that failed and is waiting to be retried. Entries move
+ * to the dead-letter list once they exhaust their attempts. Each store's
+ * outbox lives in its own storage namespace, and within it there is one entry
+ * per order and tag: failing again updates that entry instead of adding one.
+ */
+export interface TagOutboxEntry {
+  id: string;
+  /** The store the order belongs to; null on single-store deployments */
+  shop: string | null;
+  order_number: string;
+  tag: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  state: 'pending' | 'dead';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TagOutbox {
+  /**
+   * `failure` describes the tries already made before queueing, e.g. the
+   * inline attempt during a status update; without one the entry is due now.
+   */
+  enqueue(orderNumber: string, tag: string, failure?: { attempts: number; error?: string }): Promise<TagOutboxEntry>;
+  list(state: TagOutboxEntry['state']): Promise<TagOutboxEntry[]>;
+  get(id: string): Promise<TagOutboxEntry | null>;
+  /**
+   * Runs every due entry through `addTag`, rescheduling or dead-lettering
+   * failures. `ids` limits the run to those entries.
+   */
+  process(
+    addTag: (orderNumber: string, tag: string) => Promise<TagResult>,
+    options?: { ids?: string[] }
+  ): Promise<OutboxRunSummary>;
+  /** Moves a dead entry back to pending, due immediately */
+  replay(id: string): Promise<TagOutboxEntry | null>;
+}
+
+export interface OutboxRunSummary {
+  processed: number;
+  succeeded: number;
+  rescheduled: number;
+  dead_lettered: number;
+}
+
+// Exponential backoff: 1m, 2m, 4m... capped at 6h
+export function backoffSeconds(attempts: number): number {
+  return Math.min(BASE_DELAY_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_DELAY_SECONDS);
+}
+
+export function createTagOutbox(
+  backend: StorageBackend,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): TagOutbox {
+  const keyFor = (id: string) => `${ENTRY_KEY_PREFIX}${id}`;
+  // Derived from the order and tag, so every failure of the same write lands
+  // on the same entry, even when two requests fail at once
+  const idFor = (orderNumber: string, tag: string) =>
+    createHash('sha1').update(`${orderNumber}\n${tag}`).digest('hex');
+
+  const save = async (entry: TagOutboxEntry) => {
+    await backend.set(keyFor(entry.id), entry);
+    if (entry.state === 'pending') {
+      await backend.srem(DEAD_KEY, entry.id);
+      await backend.sadd(PENDING_KEY, entry.id);
+    } else {
+      await backend.srem(PENDING_KEY, entry.id);
+      await backend.sadd(DEAD_KEY, entry.id);
+    }
+  };
+
+  const remove = async (entry: TagOutboxEntry) => {
+    await backend.srem(PENDING_KEY, entry.id);
+    await backend.srem(DEAD_KEY, entry.id);
+    await backend.del(keyFor(entry.id));
+  };
+
+  const list = async (state: TagOutboxEntry['state']) => {
+    const ids = await backend.smembers(state === 'pending' ? PENDING_KEY : DEAD_KEY);
+    const entries = await Promise.all(ids.map(id => backend.get<TagOutboxEntry>(keyFor(id))));
+    return entries
+      .filter((entry): entry is TagOutboxEntry => entry !== null)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  };
+
+  return {
+    async enqueue(orderNumber, tag, failure = { attempts: 0 }) {
+      const now = new Date();
+      const id = idFor(orderNumber, tag);
+      const existing = await backend.get<TagOutboxEntry>(keyFor(id));
+
+      if (existing?.state === 'pending') {
+        // Another go at the same write; keep its schedule unless the failed
+        // attempts used up the last one
+        const attempts = existing.attempts + failure.attempts;
+        const updated: TagOutboxEntry = {
+          ...existing,
+          attempts,
+          last_error: failure.error ?? existing.last_error,
+          state: attempts >= maxAttempts ? 'dead' : 'pending',
+          updated_at: now.toISOString()
+        };
+        await save(updated);
+        if (updated.state === 'dead') {
+          console.error(`[TAG OUTBOX] ❌ Giving up on ${orderNumber} after ${attempts} attempts: ${updated.last_error}`);
+        } else {
+          console.warn(`[TAG OUTBOX] "${tag}" for ${orderNumber} is already queued, retry at ${updated.next_attempt_at}`);
+        }
+        return updated;
+      }
+
+      // A dead entry for the same write starts over under its id
+      const entry: TagOutboxEntry = {
+        id,
+        shop: getCurrentStore()?.shop ?? null,
+        order_number: orderNumber,
+        tag,
+        attempts: failure.attempts,
+        next_attempt_at: new Date(now.getTime() + (failure.attempts > 0 ? backoffSeconds(failure.attempts) * 1000 : 0)).toISOString(),
+        last_error: failure.error ?? null,
+        state: 'pending',
+        created_at: existing?.created_at ?? now.toISOString(),
+        updated_at: now.toISOString()
+      };
+      await save(entry);
+      console.warn(`[TAG OUTBOX] ${existing ? 'Requeued' : 'Queued'} "${tag}" for ${orderNumber}, retry at ${entry.next_attempt_at}`);
+      return entry;
+    },
+
+    list,
+
+    async get(id) {
+      return backend.get<TagOutboxEntry>(keyFor(id));
+    },
+
+    async process(addTag, options = {}) {
+      const summary: OutboxRunSummary = { processed: 0, succeeded: 0, rescheduled: 0, dead_lettered: 0 };
+      const now = new Date();
+      const due = (await list('pending')).filter(
+        entry => new Date(entry.next_attempt_at) <= now && (!options.ids || options.ids.includes(entry.id))
+      );
+
+      for (const entry of due) {
+        summary.processed++;
+        const result = await addTag(entry.order_number, entry.tag);
+
+        if (result.success) {
+          summary.succeeded++;
+          await remove(entry);
+          console.log(`[TAG OUTBOX] ✅ Tagged ${entry.order_number} after ${entry.attempts + 1} attempts`);
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        const updated: TagOutboxEntry = {
+          ...entry,
+          attempts,
+          last_error: result.error ?? 'Unknown error',
+          updated_at: now.toISOString(),
+          next_attempt_at: new Date(now.getTime() + backoffSeconds(attempts) * 1000).toISOString(),
+          state: attempts >= maxAttempts ? 'dead' : 'pending'
+        };
+        await save(updated);
+
+        if (updated.state === 'dead') {
+          summary.dead_lettered++;
+          console.error(`[TAG OUTBOX] ❌ Giving up on ${entry.order_number} after ${attempts} attempts: ${updated.last_error}`);
+        } else {
+          summary.rescheduled++;
+        }
+      }
+
+      return summary;
+    },
+
+    async replay(id) {
+      const entry = await backend.get<TagOutboxEntry>(keyFor(id));
+      if (!entry) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const replayed: TagOutboxEntry = { ...entry, state: 'pending', attempts: 0, next_attempt_at: now, updated_at: now };
+      await save(replayed);
+      return replayed;
+    }
+  };
+}
+
+/** `TAG_OUTBOX_MAX_ATTEMPTS` sets how many tries an entry gets before it is dead-lettered */
+export function getTagOutbox(): TagOutbox {
+  const maxAttempts = Number(process.env.TAG_OUTBOX_MAX_ATTEMPTS);
+  return createTagOutbox(getStorageBackend(), maxAttempts > 0 ? maxAttempts : DEFAULT_MAX_ATTEMPTS);
+}
@@ -0,0 +1,71 @@
+import type { ShopifyOrderSnapshot } from './shopify';
+
+export interface OrderStep {
+  id: string;
+  label: string;
+  status: 'completed' | 'in_progress' | 'pending';
+  clickable: boolean;
+  url: string | null;
+  /** When the order entered this step, or null if it never has */
+  timestamp: string | null;
+  /** Numbered rounds for steps that repeat, such as revisions */
+  rounds?: { round: number; url: string; timestamp: string }[];
+}
+
+/**
+ * `unavailable` means Shopify couldn't be reached (the order may well exist);
+ * `not_found` means Shopify answered and has no such order.
+ */
+export type ShopifyLookupStatus = 'found' | 'not_found' | 'unavailable' | 'not_configured';
+
+export interface Order {
+  order_number: string;
+  order_id: string;
+  current_status: string;
+  url_link?: string;
+  product_name?: string;
+  financial_status?: string;
+  fulfillment_status?: string;
+  total_price?: string;
+  created_at?: string;
+  customer_email?: string;
+  customer_name?: string;
+  line_items?: any[];
+  /** Whether the Shopify fields above could be filled in, see ShopifyLookupStatus */
+  shopify_status?: ShopifyLookupStatus;
+  workflow_id: string;
+  revisions?: RevisionRound[];
+  steps: OrderStep[];
+}
+
+export interface RevisionRound {
+  round: number;
+  url: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface OrderLinkData {
+  url_upload: string;
+  url_delivery: string;
+  url_revision: string;
+  current_status: string;
+  product_name?: string;
+  /** Workflow chosen when the order was first tracked; see lib/workflows.ts */
+  workflow_id?: string;
+  /** Links for workflow steps beyond the upload/delivery/revision slots */
+  extra_urls?: { [slot: string]: string };
+  /** Every revision round, oldest first; `url_revision` mirrors the latest */
+  revisions?: RevisionRound[];
+  /** Shopify fields kept fresh by the order webhooks */
+  shopify?: ShopifyOrderSnapshot;
+  updated_at?: string;
+  /** ISO time the order last entered each status */
+  status_timestamps?: { [status: string]: string };
+  /** `event_timestamp` of the newest Riley event applied, to detect out-of-order retries */
+  last_event_at?: string;
+}
+
+export interface OrderRecord extends OrderLinkData {
+  order_number: string;
+}
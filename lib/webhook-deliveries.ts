@@ -0,0 +1,369 @@
+import { randomUUID } from 'crypto';
+import type { OrderLinkData } from './types';
+import type { OrderHistoryEvent } from './order-history';
+import { getStorageBackend, type StorageBackend } from './storage';
+import { getCurrentStore } from './stores';
+import { backoffSeconds } from './tag-outbox';
+import { signOutboundWebhook } from './webhook-signature';
+import {
+  createWebhookSubscriptionStore,
+  type OrderEventType,
+  type WebhookEventType,
+  type WebhookSubscription,
+  type WebhookSubscriptionStore
+} from './webhook-subscriptions';
+
+const DELIVERY_KEY_PREFIX = 'webhook-delivery:';
+const PENDING_KEY = 'webhook-deliveries:pending';
+const LOG_KEY_PREFIX = 'webhook-log:';
+// Per subscription; older deliveries drop out of the log but expire on their own
+const LOG_LENGTH = 100;
+const DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_TIMEOUT_MS = 5000;
+const USER_AGENT = 'Bella-Order-Status-Webhooks/1.0';
+
+/** The JSON body receivers get. `id` is stable across retries so they can deduplicate */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface DeliveryAttempt {
+  at: string;
+  /** HTTP status from the receiver, null when the request never completed */
+  status: number | null;
+  error?: string;
+  duration_ms: number;
+}
+
+/**
+ * One event on its way to one subscription. Failed attempts are retried with
+ * the tag outbox's backoff until they succeed or run out of attempts.
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  url: string;
+  event_type: WebhookEventType;
+  payload: WebhookEvent;
+  state: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status: number | null;
+  last_error: string | null;
+  attempt_log: DeliveryAttempt[];
+  created_at: string;
+  updated_at: string;
+  delivered_at?: string;
+}
+
+export interface DeliveryRunSummary {
+  processed: number;
+  delivered: number;
+  rescheduled: number;
+  failed: number;
+}
+
+export interface WebhookDeliveryQueue {
+  enqueue(subscription: WebhookSubscription, event: WebhookEvent): Promise<WebhookDelivery>;
+  /** Sends the delivery once, right now, and records the outcome */
+  attempt(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  /** Attempts every pending delivery whose backoff has elapsed */
+  process(): Promise<DeliveryRunSummary>;
+  get(id: string): Promise<WebhookDelivery | null>;
+  /** A subscription's most recent deliveries, newest first */
+  log(subscriptionId: string, limit?: number): Promise<WebhookDelivery[]>;
+  /** Resets a delivery's attempts and sends it again immediately */
+  redeliver(id: string): Promise<WebhookDelivery | null>;
+}
+
+const EVENT_TYPES: Record<OrderHistoryEvent['type'], OrderEventType> = {
+  status_changed: 'order.status_changed',
+  url_changed: 'order.url_changed',
+  record_deleted: 'order.deleted'
+};
+
+/**
+ * Maps a history event to what subscribers receive. Only tracking fields go
+ * out - no customer details - so receivers that need more must call the API.
+ */
+export function toWebhookEvent(event: OrderHistoryEvent, linkData: OrderLinkData | null): WebhookEvent {
+  return {
+    id: event.id,
+    type: EVENT_TYPES[event.type],
+    created_at: event.timestamp,
+    data: {
+      // Receivers serving several stores need this to tell `#1002`s apart
+      shop: getCurrentStore()?.shop ?? null,
+      order_number: event.order_number,
+      field: event.field,
+      previous_value: event.previous_value,
+      new_value: event.new_value,
+      current_status: linkData?.current_status ?? null,
+      workflow_id: linkData?.workflow_id ?? null,
+      source: event.source,
+      actor: event.actor ?? null,
+      forced: Boolean(event.forced)
+    }
+  };
+}
+
+/**
+ * Empty `events`/`statuses` match everything. `statuses` only narrows
+ * `order.status_changed` events, to changes into one of those statuses;
+ * other event types are filtered by `events` alone.
+ */
+export function subscriptionMatches(subscription: WebhookSubscription, event: WebhookEvent): boolean {
+  if (!subscription.active) {
+    return false;
+  }
+  if (subscription.events.length > 0 && !subscription.events.includes(event.type as OrderEventType)) {
+    return false;
+  }
+  if (subscription.statuses.length > 0 && event.type === 'order.status_changed') {
+    return subscription.statuses.includes(String(event.data.new_value));
+  }
+  return true;
+}
+
+export function createWebhookDeliveryQueue(
+  backend: StorageBackend,
+  subscriptions: WebhookSubscriptionStore,
+  options: { maxAttempts?: number; timeoutMs?: number } = {}
+): WebhookDeliveryQueue {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const keyFor = (id: string) => `${DELIVERY_KEY_PREFIX}${id}`;
+
+  const save = async (delivery: WebhookDelivery) => {
+    await backend.set(keyFor(delivery.id), delivery, { ttlSeconds: DELIVERY_TTL_SECONDS });
+    if (delivery.state === 'pending') {
+      await backend.sadd(PENDING_KEY, delivery.id);
+    } else {
+      await backend.srem(PENDING_KEY, delivery.id);
+    }
+  };
+
+  const send = async (subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<DeliveryAttempt> => {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const started = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          'X-Bella-Event': delivery.event_type,
+          'X-Bella-Delivery': delivery.id,
+          'X-Bella-Timestamp': timestamp,
+          'X-Bella-Signature': signOutboundWebhook(subscription.secret, timestamp, body)
+        },
+        body,
+        signal: controller.signal
+      });
+
+      return {
+        at: new Date(started).toISOString(),
+        status: response.status,
+        ...(response.ok ? {} : { error: `Receiver responded with ${response.status}` }),
+        duration_ms: Date.now() - started
+      };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+      return { at: new Date(started).toISOString(), status: null, error: message, duration_ms: Date.now() - started };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const attempt = async (delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+    const subscription = await subscriptions.get(delivery.subscription_id);
+    const now = new Date();
+
+    if (!subscription) {
+      const failed: WebhookDelivery = {
+        ...delivery,
+        state: 'failed',
+        next_attempt_at: null,
+        last_error: 'Subscription was deleted',
+        updated_at: now.toISOString()
+      };
+      await save(failed);
+      return failed;
+    }
+
+    const result = await send(subscription, delivery);
+    const attempts = delivery.attempts + 1;
+    const delivered = !result.error;
+    const state: WebhookDelivery['state'] = delivered ? 'delivered' : attempts >= maxAttempts ? 'failed' : 'pending';
+
+    const updated: WebhookDelivery = {
+      ...delivery,
+      url: subscription.url,
+      state,
+      attempts,
+      last_status: result.status,
+      last_error: result.error ?? null,
+      attempt_log: [...delivery.attempt_log, result].slice(-maxAttempts),
+      next_attempt_at: state === 'pending'
+        ? new Date(now.getTime() + backoffSeconds(attempts) * 1000).toISOString()
+        : null,
+      updated_at: now.toISOString(),
+      ...(delivered ? { delivered_at: now.toISOString() } : {})
+    };
+    await save(updated);
+
+    if (state === 'delivered') {
+      console.log(`[WEBHOOKS] ✅ Delivered ${delivery.event_type} to ${subscription.url} (${result.status})`);
+    } else if (state === 'failed') {
+      console.error(`[WEBHOOKS] ❌ Giving up on ${delivery.id} to ${subscription.url} after ${attempts} attempts: ${result.error}`);
+    } else {
+      console.warn(`[WEBHOOKS] ⚠️ Delivery to ${subscription.url} failed (${result.error}), retry at ${updated.next_attempt_at}`);
+    }
+
+    return updated;
+  };
+
+  return {
+    async enqueue(subscription, event) {
+      const now = new Date().toISOString();
+      const delivery: WebhookDelivery = {
+        id: randomUUID(),
+        subscription_id: subscription.id,
+        url: subscription.url,
+        event_type: event.type,
+        payload: event,
+        state: 'pending',
+        attempts: 0,
+        next_attempt_at: now,
+        last_status: null,
+        last_error: null,
+        attempt_log: [],
+        created_at: now,
+        updated_at: now
+      };
+      await save(delivery);
+
+      const logKey = `${LOG_KEY_PREFIX}${subscription.id}`;
+      await backend.rpush(logKey, delivery.id);
+      await backend.ltrim(logKey, -LOG_LENGTH, -1);
+      return delivery;
+    },
+
+    attempt,
+
+    async process() {
+      const summary: DeliveryRunSummary = { processed: 0, delivered: 0, rescheduled: 0, failed: 0 };
+      const now = new Date();
+      const ids = await backend.smembers(PENDING_KEY);
+
+      for (const id of ids) {
+        const delivery = await backend.get<WebhookDelivery>(keyFor(id));
+        if (!delivery) {
+          await backend.srem(PENDING_KEY, id);
+          continue;
+        }
+        if (delivery.next_attempt_at && new Date(delivery.next_attempt_at) > now) {
+          continue;
+        }
+
+        summary.processed++;
+        const updated = await attempt(delivery);
+        if (updated.state === 'delivered') {
+          summary.delivered++;
+        } else if (updated.state === 'failed') {
+          summary.failed++;
+        } else {
+          summary.rescheduled++;
+        }
+      }
+
+      return summary;
+    },
+
+    async get(id) {
+      return backend.get<WebhookDelivery>(keyFor(id));
+    },
+
+    async log(subscriptionId, limit = LOG_LENGTH) {
+      const ids = await backend.lrange<string>(`${LOG_KEY_PREFIX}${subscriptionId}`, -limit, -1);
+      const deliveries = await Promise.all(ids.map(id => backend.get<WebhookDelivery>(keyFor(id))));
+      return deliveries
+        .filter((delivery): delivery is WebhookDelivery => delivery !== null)
+        .reverse();
+    },
+
+    async redeliver(id) {
+      const delivery = await backend.get<WebhookDelivery>(keyFor(id));
+      if (!delivery) {
+        return null;
+      }
+      return attempt({ ...delivery, state: 'pending', attempts: 0 });
+    }
+  };
+}
+
+/**
+ * `WEBHOOK_MAX_ATTEMPTS` sets how many tries a delivery gets and
+ * `WEBHOOK_TIMEOUT_MS` how long each one may take
+ */
+export function getWebhookDeliveryQueue(): WebhookDeliveryQueue {
+  const backend = getStorageBackend();
+  const maxAttempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+  const timeoutMs = Number(process.env.WEBHOOK_TIMEOUT_MS);
+  return createWebhookDeliveryQueue(backend, createWebhookSubscriptionStore(backend), {
+    maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_MAX_ATTEMPTS,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS
+  });
+}
+
+/**
+ * Queues a delivery for every subscription interested in `events` and, unless
+ * `deliverNow` is false, makes the first attempt straight away. Never throws:
+ * a broken receiver must not fail the update that triggered it, and anything
+ * that doesn't go through is left to the cron retry.
+ */
+export async function dispatchOrderEvents(
+  events: OrderHistoryEvent[],
+  linkData: OrderLinkData | null,
+  options: { deliverNow?: boolean } = {}
+): Promise<WebhookDelivery[]> {
+  if (events.length === 0) {
+    return [];
+  }
+
+  try {
+    const backend = getStorageBackend();
+    const subscriptions = await createWebhookSubscriptionStore(backend).list();
+    if (subscriptions.length === 0) {
+      return [];
+    }
+
+    const queue = getWebhookDeliveryQueue();
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const event of events.map(event => toWebhookEvent(event, linkData))) {
+      for (const subscription of subscriptions.filter(subscription => subscriptionMatches(subscription, event))) {
+        deliveries.push(await queue.enqueue(subscription, event));
+      }
+    }
+
+    if (options.deliverNow === false) {
+      return deliveries;
+    }
+    return await Promise.all(deliveries.map(delivery => queue.attempt(delivery)));
+  } catch (error) {
+    console.error('[WEBHOOKS] ❌ Failed to dispatch order events:', error);
+    return [];
+  }
+}
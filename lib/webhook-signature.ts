@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface SignatureCheck {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Riley signs `<timestamp>.<raw body>` with HMAC-SHA256 and sends the hex
+ * digest as `X-Riley-Signature: sha256=<hex>` next to `X-Riley-Timestamp`
+ * (unix seconds).
+ */
+export function signRileyPayload(secret: string, timestamp: string, rawBody: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Our own outbound webhooks use the same scheme as Riley so receivers can
+ * reuse one verifier: `X-Bella-Signature: sha256=<hex>` over
+ * `<X-Bella-Timestamp>.<raw body>`.
+ */
+export function signOutboundWebhook(secret: string, timestamp: string, rawBody: string): string {
+  return `sha256=${signRileyPayload(secret, timestamp, rawBody)}`;
+}
+
+export function verifyRileySignature(
+  rawBody: string,
+  signatureHeader: string | undefined,
+  timestampHeader: string | undefined,
+  options: { secret: string; toleranceSeconds?: number; now?: number }
+): SignatureCheck {
+  if (!signatureHeader || !timestampHeader) {
+    return { valid: false, reason: 'Missing X-Riley-Signature or X-Riley-Timestamp header' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    return { valid: false, reason: 'X-Riley-Timestamp must be a unix timestamp in seconds' };
+  }
+
+  // Rejecting stale timestamps is what stops a captured request being replayed later
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  if (Math.abs(nowSeconds - timestamp) > tolerance) {
+    return { valid: false, reason: `Request timestamp is outside the ${tolerance}s tolerance window` };
+  }
+
+  const provided = signatureHeader.replace(/^sha256=/, '');
+  const expected = signRileyPayload(options.secret, timestampHeader, rawBody);
+  const providedBuf = Buffer.from(provided, 'hex');
+  const expectedBuf = Buffer.from(expected, 'hex');
+
+  if (providedBuf.length !== expectedBuf.length || !timingSafeEqual(providedBuf, expectedBuf)) {
+    return { valid: false, reason: 'Signature does not match request body' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Shopify sends the base64 HMAC-SHA256 of the raw body in
+ * `X-Shopify-Hmac-Sha256`. Shopify webhooks carry no signed timestamp, so
+ * replays are handled by deduplicating on `X-Shopify-Webhook-Id` instead.
+ */
+export function verifyShopifyWebhook(
+  rawBody: string,
+  hmacHeader: string | undefined,
+  secret: string
+): SignatureCheck {
+  if (!hmacHeader) {
+    return { valid: false, reason: 'Missing X-Shopify-Hmac-Sha256 header' };
+  }
+
+  const expected = createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+  const provided = Buffer.from(hmacHeader, 'base64');
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return { valid: false, reason: 'Shopify HMAC does not match request body' };
+  }
+
+  return { valid: true };
+}
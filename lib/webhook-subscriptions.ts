@@ -0,0 +1,156 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { getStorageBackend, type StorageBackend } from './storage';
+
+const SUBSCRIPTION_KEY_PREFIX = 'webhook-subscription:';
+const SUBSCRIPTION_INDEX_KEY = 'webhook-subscriptions';
+
+export const ORDER_EVENT_TYPES = ['order.status_changed', 'order.url_changed', 'order.deleted'] as const;
+export type OrderEventType = typeof ORDER_EVENT_TYPES[number];
+/** `webhook.test` is only ever sent by the test endpoint */
+export type WebhookEventType = OrderEventType | 'webhook.test';
+
+/**
+ * An external system that wants to hear about order changes. Empty `events`
+ * means every event type; a non-empty `statuses` narrows `order.status_changed`
+ * deliveries to changes into one of those statuses and leaves other event
+ * types alone.
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Signs deliveries; only shown when created or rotated */
+  secret: string;
+  events: OrderEventType[];
+  statuses: string[];
+  description?: string;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubscriptionInput {
+  url?: string;
+  events?: string[];
+  statuses?: string[];
+  description?: string;
+  active?: boolean;
+}
+
+export interface WebhookSubscriptionStore {
+  create(input: SubscriptionInput): Promise<WebhookSubscription>;
+  list(): Promise<WebhookSubscription[]>;
+  get(id: string): Promise<WebhookSubscription | null>;
+  update(id: string, input: SubscriptionInput, options?: { rotateSecret?: boolean }): Promise<WebhookSubscription | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/** Returns a message describing the first problem, or null when `input` is usable */
+export function validateSubscriptionInput(input: SubscriptionInput, options: { partial?: boolean } = {}): string | null {
+  if (input.url === undefined) {
+    if (!options.partial) {
+      return 'url is required';
+    }
+  } else {
+    let parsed: URL;
+    try {
+      parsed = new URL(input.url);
+    } catch (error) {
+      return 'url must be an absolute URL';
+    }
+    const allowHttp = process.env.VERCEL_ENV !== 'production';
+    if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+      return 'url must use https';
+    }
+  }
+
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events)) {
+      return 'events must be an array';
+    }
+    const unknown = input.events.filter(event => !(ORDER_EVENT_TYPES as readonly string[]).includes(event));
+    if (unknown.length > 0) {
+      return `Unknown events: ${unknown.join(', ')}. Expected any of: ${ORDER_EVENT_TYPES.join(', ')}`;
+    }
+  }
+
+  if (input.statuses !== undefined && (!Array.isArray(input.statuses) || input.statuses.some(s => typeof s !== 'string'))) {
+    return 'statuses must be an array of status ids';
+  }
+
+  return null;
+}
+
+/** What admins see when listing: the secret is reduced to a hint */
+export function maskSubscription(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> & { secret_hint: string } {
+  const { secret, ...rest } = subscription;
+  return { ...rest, secret_hint: `${secret.slice(0, 6)}…${secret.slice(-4)}` };
+}
+
+export function createWebhookSubscriptionStore(backend: StorageBackend): WebhookSubscriptionStore {
+  const keyFor = (id: string) => `${SUBSCRIPTION_KEY_PREFIX}${id}`;
+
+  return {
+    async create(input) {
+      const now = new Date().toISOString();
+      const subscription: WebhookSubscription = {
+        id: randomUUID(),
+        url: input.url!,
+        secret: generateSecret(),
+        events: (input.events ?? []) as OrderEventType[],
+        statuses: input.statuses ?? [],
+        ...(input.description ? { description: input.description } : {}),
+        active: input.active ?? true,
+        created_at: now,
+        updated_at: now
+      };
+      await backend.set(keyFor(subscription.id), subscription);
+      await backend.sadd(SUBSCRIPTION_INDEX_KEY, subscription.id);
+      return subscription;
+    },
+
+    async list() {
+      const ids = await backend.smembers(SUBSCRIPTION_INDEX_KEY);
+      const subscriptions = await Promise.all(ids.map(id => backend.get<WebhookSubscription>(keyFor(id))));
+      return subscriptions
+        .filter((subscription): subscription is WebhookSubscription => subscription !== null)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async get(id) {
+      return backend.get<WebhookSubscription>(keyFor(id));
+    },
+
+    async update(id, input, options = {}) {
+      const existing = await backend.get<WebhookSubscription>(keyFor(id));
+      if (!existing) {
+        return null;
+      }
+
+      const updated: WebhookSubscription = {
+        ...existing,
+        ...(input.url !== undefined ? { url: input.url } : {}),
+        ...(input.events !== undefined ? { events: input.events as OrderEventType[] } : {}),
+        ...(input.statuses !== undefined ? { statuses: input.statuses } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.active !== undefined ? { active: Boolean(input.active) } : {}),
+        ...(options.rotateSecret ? { secret: generateSecret() } : {}),
+        updated_at: new Date().toISOString()
+      };
+      await backend.set(keyFor(id), updated);
+      return updated;
+    },
+
+    async delete(id) {
+      await backend.srem(SUBSCRIPTION_INDEX_KEY, id);
+      return backend.del(keyFor(id));
+    }
+  };
+}
+
+export function getWebhookSubscriptionStore(): WebhookSubscriptionStore {
+  return createWebhookSubscriptionStore(getStorageBackend());
+}
@@ -0,0 +1,208 @@
+import workflowConfig from '../config/workflows.json';
+import type { OrderLinkData, OrderStep } from './types';
+
+/**
+ * Order workflows: the ordered steps an order moves through, their labels,
+ * which ones link somewhere, and the allowed status transitions. Shared by
+ * the API and the dashboard, so this module must stay free of server-only
+ * imports.
+ *
+ * The built-in `standard` workflow applies unless a workflow in
+ * `config/workflows.json` matches the order's product.
+ */
+
+/** Where a step's link is stored; the three legacy slots live on the record itself */
+export type UrlSlot = 'url_upload' | 'url_delivery' | 'url_revision' | string;
+
+export interface WorkflowStep {
+  id: string;
+  label: string;
+  clickable: boolean;
+  url_slot: UrlSlot | null;
+  /** Statuses reachable from this step. Defaults to the following step. */
+  next?: string[];
+  /** Each entry into the step opens a new numbered revision round */
+  rounds?: boolean;
+  /** Optional cap on revision rounds for products using this workflow */
+  max_rounds?: number;
+  /** Turnaround target for this step in hours (see lib/sla.ts) */
+  sla_hours?: number;
+}
+
+export interface WorkflowMatch {
+  /** Case-insensitive product names, as Riley sends them or as Shopify line items name them */
+  product_names?: string[];
+  product_ids?: string[];
+  variant_ids?: string[];
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  steps: WorkflowStep[];
+  match?: WorkflowMatch;
+}
+
+export interface ProductIdentity {
+  product_name?: string;
+  product_ids?: string[];
+  variant_ids?: string[];
+}
+
+/** Reaching this status is what tags the Shopify order and triggers the completion flow */
+export const COMPLETE_STATUS = 'order_complete';
+
+export const STANDARD_WORKFLOW: Workflow = {
+  id: 'standard',
+  name: 'Standard',
+  steps: [
+    { id: 'upload_photo', label: 'Upload photo', clickable: true, url_slot: 'url_upload', next: ['in_progress'], sla_hours: 168 },
+    { id: 'in_progress', label: 'In progress', clickable: false, url_slot: null, next: ['check_delivery'], sla_hours: 72 },
+    {
+      id: 'check_delivery',
+      label: 'Check delivery',
+      clickable: true,
+      url_slot: 'url_delivery',
+      next: ['check_revision', 'order_complete'],
+      sla_hours: 168
+    },
+    {
+      id: 'check_revision',
+      label: 'Check revision',
+      clickable: true,
+      url_slot: 'url_revision',
+      next: ['in_progress', 'check_delivery', 'order_complete'],
+      rounds: true,
+      sla_hours: 168
+    },
+    { id: 'order_complete', label: 'Order complete', clickable: false, url_slot: null, next: [] }
+  ]
+};
+
+function isValidWorkflow(workflow: Workflow): boolean {
+  const ids = workflow.steps.map(step => step.id);
+  const unknownTargets = workflow.steps
+    .flatMap(step => step.next ?? [])
+    .filter(target => !ids.includes(target));
+
+  const badSla = workflow.steps.some(step => step.sla_hours !== undefined && !(typeof step.sla_hours === 'number' && step.sla_hours > 0));
+
+  if (!workflow.id || ids.length === 0 || new Set(ids).size !== ids.length || unknownTargets.length > 0 || badSla) {
+    console.error(`[WORKFLOWS] Ignoring invalid workflow "${workflow.id}"`);
+    return false;
+  }
+  return true;
+}
+
+export const WORKFLOWS: Workflow[] = [
+  STANDARD_WORKFLOW,
+  ...(workflowConfig.workflows as Workflow[]).filter(isValidWorkflow)
+];
+
+export function getWorkflow(id: string | undefined | null): Workflow {
+  return WORKFLOWS.find(workflow => workflow.id === id) ?? STANDARD_WORKFLOW;
+}
+
+/** First configured workflow matching the product, else the standard one */
+export function resolveWorkflow(product: ProductIdentity): Workflow {
+  const name = product.product_name?.trim().toLowerCase();
+  const productIds = product.product_ids ?? [];
+  const variantIds = product.variant_ids ?? [];
+
+  const matched = WORKFLOWS.find(({ match }) => {
+    if (!match) {
+      return false;
+    }
+    return (
+      (!!name && (match.product_names ?? []).some(candidate => candidate.toLowerCase() === name)) ||
+      (match.product_ids ?? []).some(id => productIds.includes(String(id))) ||
+      (match.variant_ids ?? []).some(id => variantIds.includes(String(id)))
+    );
+  });
+
+  return matched ?? STANDARD_WORKFLOW;
+}
+
+export function hasIdMatchers(): boolean {
+  return WORKFLOWS.some(({ match }) => (match?.product_ids?.length ?? 0) > 0 || (match?.variant_ids?.length ?? 0) > 0);
+}
+
+export function isWorkflowStatus(workflow: Workflow, value: unknown): value is string {
+  return typeof value === 'string' && workflow.steps.some(step => step.id === value);
+}
+
+export function getStep(workflow: Workflow, status: string): WorkflowStep | undefined {
+  return workflow.steps.find(step => step.id === status);
+}
+
+/** Statuses reachable from `from`, always including `from` itself */
+export function allowedTransitions(workflow: Workflow, from: string): string[] {
+  const index = workflow.steps.findIndex(step => step.id === from);
+  if (index === -1) {
+    return workflow.steps.map(step => step.id);
+  }
+
+  const step = workflow.steps[index];
+  const following = workflow.steps[index + 1];
+  const next = step.next ?? (following ? [following.id] : []);
+  return [from, ...next];
+}
+
+// Re-posting the current status is always allowed so Riley can update the
+// step's URL without moving the order.
+export function canTransition(workflow: Workflow, from: string, to: string): boolean {
+  if (!isWorkflowStatus(workflow, to)) {
+    return false;
+  }
+  // Records saved before statuses were validated may hold anything; let them recover
+  if (!isWorkflowStatus(workflow, from)) {
+    return true;
+  }
+  return allowedTransitions(workflow, from).includes(to);
+}
+
+/** True when `to` comes before `from` in the workflow, i.e. a loop-back like approve_proof -> in_progress */
+export function isEarlierStep(workflow: Workflow, from: string, to: string): boolean {
+  const fromIndex = workflow.steps.findIndex(step => step.id === from);
+  const toIndex = workflow.steps.findIndex(step => step.id === to);
+  return fromIndex !== -1 && toIndex !== -1 && toIndex < fromIndex;
+}
+
+const RECORD_SLOTS = ['url_upload', 'url_delivery', 'url_revision'];
+
+export function getSlotUrl(linkData: OrderLinkData, slot: UrlSlot): string {
+  if (RECORD_SLOTS.includes(slot)) {
+    return linkData[slot as 'url_upload' | 'url_delivery' | 'url_revision'];
+  }
+  return linkData.extra_urls?.[slot] ?? '';
+}
+
+export function setSlotUrl(linkData: OrderLinkData, slot: UrlSlot, url: string): void {
+  if (RECORD_SLOTS.includes(slot)) {
+    linkData[slot as 'url_upload' | 'url_delivery' | 'url_revision'] = url;
+  } else {
+    linkData.extra_urls = { ...linkData.extra_urls, [slot]: url };
+  }
+}
+
+export function generateSteps(workflow: Workflow, linkData: OrderLinkData): OrderStep[] {
+  const statusIndex = workflow.steps.findIndex(step => step.id === linkData.current_status);
+
+  return workflow.steps.map((step, index) => ({
+    id: step.id,
+    label: step.label,
+    status: index === statusIndex ? 'in_progress' : (statusIndex > index ? 'completed' : 'pending'),
+    clickable: step.clickable,
+    url: step.url_slot ? getSlotUrl(linkData, step.url_slot) : null,
+    timestamp: linkData.status_timestamps?.[step.id] ?? null,
+    ...(step.rounds
+      ? {
+          rounds: (linkData.revisions ?? []).map(round => ({
+            round: round.round,
+            url: round.url,
+            timestamp: round.created_at
+          }))
+        }
+      : {})
+  }));
+}
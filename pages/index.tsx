@@ -1,4 +1,8 @@
 import { useState, useEffect } from 'react';
+import { WORKFLOWS, canTransition, getStep, getWorkflow } from '../lib/workflows';
+import { getSlaStatus } from '../lib/sla';
+import type { OperationsReport } from '../lib/analytics';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, getLocaleName } from '../lib/i18n';
 
 interface OrderStep {
   id: string;
@@ -6,40 +10,269 @@ interface OrderStep {
   status: 'completed' | 'in_progress' | 'pending';
   clickable: boolean;
   url: string | null;
+  timestamp: string | null;
+  rounds?: { round: number; url: string; timestamp: string }[];
+}
+
+interface StoreOption {
+  shop: string;
+  name: string;
+  default: boolean;
+}
+
+interface StaffIdentity {
+  name: string;
+  role: 'viewer' | 'operator' | 'admin';
+  stores?: StoreOption[];
 }
 
 interface Order {
   order_number: string;
   order_id: string;
   current_status: string;
+  workflow_id?: string;
   steps: OrderStep[];
 }
 
+// Durations read better in days once they pass two
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  return hours < 48 ? `${hours}h` : `${(hours / 24).toFixed(1)}d`;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a Server-Sent Events response, calling `onEvent` per message and
+ * `onId` with each event ID so a reconnect can resume from it.
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void,
+  onId: (id: string) => void
+) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    for (const message of messages) {
+      let event = 'message';
+      let data = '';
+      for (const line of message.split('\n')) {
+        if (line.startsWith('id: ')) onId(line.slice(4));
+        else if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) {
+        onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+}
+
 export default function Dashboard() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<string>('');
   const [selectedStatus, setSelectedStatus] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [dashboardKey, setDashboardKey] = useState<string>('');
+  const [pageInfo, setPageInfo] = useState<string>('');
+  const [pagination, setPagination] = useState<{ next_page_info: string | null; previous_page_info: string | null } | null>(null);
+  const [search, setSearch] = useState<string>('');
+  const [staff, setStaff] = useState<StaffIdentity | null>(null);
+  const [force, setForce] = useState(false);
+  const [checkedOrders, setCheckedOrders] = useState<string[]>([]);
+  const [bulkStatus, setBulkStatus] = useState<string>('');
+  const [live, setLive] = useState(false);
+  const [analytics, setAnalytics] = useState<OperationsReport | null>(null);
+  const [analyticsRange, setAnalyticsRange] = useState({ from: daysAgo(29), to: daysAgo(0), workflow: 'standard' });
+  const [previewLocale, setPreviewLocale] = useState(DEFAULT_LOCALE);
+  const [previewSteps, setPreviewSteps] = useState<OrderStep[] | null>(null);
+  const [shop, setShop] = useState<string>('');
 
   useEffect(() => {
+    setDashboardKey(localStorage.getItem('bella-dashboard-key') || '');
+    setShop(localStorage.getItem('bella-shop') || '');
+    loadStaff();
     loadOrders();
   }, []);
 
-  const loadOrders = async () => {
+  // Live updates from Riley and other staff. Uses fetch rather than
+  // EventSource because the dashboard key has to go in a header.
+  useEffect(() => {
+    if (!staff) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let lastEventId = '';
+
+    const handleEvent = (event: string, data: any) => {
+      if (event === 'order') {
+        // Orders created since the list loaded go on top, as the newest
+        setOrders(prev => prev.some(o => o.order_number === data.order_number)
+          ? prev.map(o => (o.order_number === data.order_number ? { ...o, ...data } : o))
+          : [data, ...prev]);
+      } else if (event === 'order_deleted') {
+        setOrders(prev => prev.filter(o => o.order_number !== data.order_number));
+      }
+    };
+
+    const subscribe = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const response = await fetch('/api/order-status/stream', {
+            headers: { ...staffHeaders(), ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}) },
+            signal: controller.signal
+          });
+          if (response.ok && response.body) {
+            setLive(true);
+            await readEventStream(response, handleEvent, id => { lastEventId = id; });
+          }
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+        }
+        // The server ends each response after a while; reconnect and resume
+        setLive(false);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    };
+
+    subscribe();
+    return () => {
+      controller.abort();
+      setLive(false);
+    };
+  }, [staff, shop]);
+
+  useEffect(() => {
+    if (staff) {
+      loadAnalytics();
+    }
+  }, [staff, analyticsRange, shop]);
+
+  // The customer view shows labels as the storefront would get them
+  useEffect(() => {
+    setPreviewSteps(null);
+    if (!selectedOrder || previewLocale === DEFAULT_LOCALE) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/order-status?order=${encodeURIComponent(selectedOrder)}&locale=${previewLocale}`, {
+      cache: 'no-cache',
+      headers: staffHeaders()
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data) setPreviewSteps(data.steps);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrder, previewLocale, orders]);
+
+  const goToPage = (page: string) => {
+    setPageInfo(page);
+    setCheckedOrders([]);
+    loadOrders(page);
+  };
+
+  const handleSearch = () => {
+    setPageInfo('');
+    setCheckedOrders([]);
+    loadOrders('', search);
+  };
+
+  const handleDashboardKeyChange = (value: string) => {
+    setDashboardKey(value);
+    localStorage.setItem('bella-dashboard-key', value);
+  };
+
+  // Every request goes to the store picked in the switcher; none means the default store
+  const shopHeaders = (): Record<string, string> => {
+    const savedShop = localStorage.getItem('bella-shop');
+    return savedShop ? { 'X-Bella-Shop': savedShop } : {};
+  };
+
+  // Read from storage so the first load on mount already has the saved key
+  const staffHeaders = () => ({ 'X-Dashboard-Key': localStorage.getItem('bella-dashboard-key') || '', ...shopHeaders() });
+
+  const handleShopChange = (value: string) => {
+    setShop(value);
+    if (value) {
+      localStorage.setItem('bella-shop', value);
+    } else {
+      localStorage.removeItem('bella-shop');
+    }
+    // Order numbers only mean something within one store
+    setSelectedOrder('');
+    setSelectedStatus('');
+    setCheckedOrders([]);
+    setPageInfo('');
+    setSearch('');
+    setMessage(null);
+    loadOrders('', '');
+  };
+
+  const loadStaff = async () => {
+    try {
+      const response = await fetch('/api/auth/me', { headers: staffHeaders() });
+      const identity: StaffIdentity | null = response.ok ? await response.json() : null;
+      // Forget a saved store that has since been removed from the registry
+      const savedShop = localStorage.getItem('bella-shop');
+      if (identity?.stores && savedShop && !identity.stores.some(store => store.shop === savedShop)) {
+        localStorage.removeItem('bella-shop');
+        setShop('');
+      }
+      setStaff(identity);
+    } catch (error) {
+      setStaff(null);
+    }
+  };
+
+  const loadOrders = async (page: string = pageInfo, query: string = search) => {
     try {
-      // Try to fetch from Shopify first
-      const shopifyResponse = await fetch('/api/shopify-orders');
+      // Try to fetch from Shopify first, one page of 10 at a time
+      const params = new URLSearchParams({ limit: '10' });
+      if (page) {
+        params.set('page_info', page);
+      } else if (query) {
+        params.set('search', query);
+      }
+      const shopifyResponse = await fetch(`/api/shopify-orders?${params.toString()}`, { headers: staffHeaders() });
       
       if (shopifyResponse.ok) {
         const shopifyData = await shopifyResponse.json();
+        setPagination(shopifyData.pagination || null);
         
         if (shopifyData.success && shopifyData.orders.length > 0) {
-          // Fetch status for each order (limit to first 10)
+          // Fetch status for each order on this page
           const ordersWithStatus = await Promise.all(
-            shopifyData.orders.slice(0, 10).map(async (shopifyOrder: any) => {
+            shopifyData.orders.map(async (shopifyOrder: any) => {
               try {
-                const statusResponse = await fetch(`/api/order-status?order=${encodeURIComponent(shopifyOrder.order_number)}`);
+                // Revalidate with the ETag so a status we just changed isn't served stale
+                const statusResponse = await fetch(
+                  `/api/order-status?order=${encodeURIComponent(shopifyOrder.order_number)}`,
+                  { cache: 'no-cache', headers: staffHeaders() }
+                );
                 
                 if (statusResponse.ok) {
                   return await statusResponse.json();
@@ -69,17 +302,24 @@ export default function Dashboard() {
         }
       }
       
-      // Fallback to mock data
-      const order1 = await fetch('/api/order-status?order=%231002').then(r => r.json());
-      const order2 = await fetch('/api/order-status?order=%231001').then(r => r.json());
-      setOrders([order1, order2]);
+      // Fallback to tracked orders from storage
+      await loadTrackedOrders();
       
     } catch (error) {
       console.error('Error loading orders:', error);
-      // Ultimate fallback to mock data
-      const order1 = await fetch('/api/order-status?order=%231002').then(r => r.json());
-      const order2 = await fetch('/api/order-status?order=%231001').then(r => r.json());
-      setOrders([order1, order2]);
+      // Ultimate fallback to tracked orders from storage
+      await loadTrackedOrders();
+    }
+  };
+
+  const loadTrackedOrders = async () => {
+    try {
+      const response = await fetch('/api/order-status', { headers: staffHeaders() });
+      const data = await response.json();
+      setOrders(data.success ? data.orders : []);
+    } catch (error) {
+      console.error('Error loading tracked orders:', error);
+      setOrders([]);
     }
   };
 
@@ -95,10 +335,15 @@ export default function Dashboard() {
     try {
       const response = await fetch('/api/order-status', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Dashboard-Key': dashboardKey,
+          ...shopHeaders()
+        },
         body: JSON.stringify({
           order_number: selectedOrder,
-          current_status: selectedStatus
+          current_status: selectedStatus,
+          ...(force ? { force: true } : {})
         })
       });
 
@@ -117,6 +362,182 @@ export default function Dashboard() {
     }
   };
 
+  const toggleChecked = (orderNumber: string) => {
+    setCheckedOrders(prev =>
+      prev.includes(orderNumber) ? prev.filter(o => o !== orderNumber) : [...prev, orderNumber]
+    );
+  };
+
+  const handleBulkUpdate = async () => {
+    if (checkedOrders.length === 0 || !bulkStatus) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/order-status/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Dashboard-Key': dashboardKey,
+          ...shopHeaders()
+        },
+        body: JSON.stringify({
+          current_status: bulkStatus,
+          orders: checkedOrders,
+          ...(force ? { force: true } : {})
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.message || 'Bulk update failed' });
+        return;
+      }
+
+      const failures = data.results.filter((r: any) => !r.success);
+      const notProcessed: string[] = data.not_processed ?? [];
+      const problems = [
+        ...(failures.length > 0 ? [`Failed: ${failures.map((r: any) => `${r.order_number} (${r.message})`).join('; ')}`] : []),
+        ...(notProcessed.length > 0 ? [`Not processed (ran out of time): ${notProcessed.join(', ')}`] : [])
+      ];
+      setMessage(problems.length === 0
+        ? { type: 'success', text: `Updated ${data.succeeded} orders` }
+        : {
+            type: 'error',
+            text: `Updated ${data.succeeded} of ${data.total + notProcessed.length}. ${problems.join('. ')}`
+          });
+      // Keep failed and unprocessed orders selected so they can be retried or fixed
+      setCheckedOrders([...failures.map((r: any) => r.order_number), ...notProcessed]);
+      await loadOrders();
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAnalytics = async () => {
+    try {
+      const params = new URLSearchParams(analyticsRange);
+      const response = await fetch(`/api/order-status/analytics?${params}`, { headers: staffHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.message || 'Failed to load analytics' });
+        return;
+      }
+      setAnalytics(data);
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error' });
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const response = await fetch('/api/order-status/export', { headers: staffHeaders() });
+      if (!response.ok) {
+        const data = await response.json();
+        setMessage({ type: 'error', text: data.message || 'Export failed' });
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `orders-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error' });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setLoading(true);
+    setMessage(null);
+
+    const csv = await file.text();
+    const upload = (dryRun: boolean) => fetch(`/api/order-status/import${dryRun ? '?dry_run=1' : ''}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv', ...staffHeaders() },
+      body: csv
+    });
+
+    try {
+      // Show the dry run first so nothing is written without a look at the diff
+      const preview = await upload(true);
+      const plan = await preview.json();
+
+      if (!preview.ok) {
+        const rowErrors = (plan.rows || [])
+          .filter((row: any) => row.action === 'error')
+          .map((row: any) => `line ${row.line}: ${row.errors.join(', ')}`);
+        setMessage({ type: 'error', text: [plan.message, ...rowErrors].join(' | ') });
+        return;
+      }
+
+      const changes = plan.rows
+        .filter((row: any) => row.action !== 'unchanged')
+        .map((row: any) => `${row.order_number} (${row.action}): ${row.changes.map((c: any) => `${c.field} ${c.from ?? '∅'} → ${c.to}`).join(', ')}`);
+
+      if (changes.length === 0) {
+        setMessage({ type: 'success', text: 'Nothing to import - every row matches the stored data' });
+        return;
+      }
+
+      const summary = `Create ${plan.summary.create}, update ${plan.summary.update}, unchanged ${plan.summary.unchanged}`;
+      if (!confirm(`${summary}\n\n${changes.slice(0, 20).join('\n')}${changes.length > 20 ? `\n…and ${changes.length - 20} more` : ''}\n\nApply this import?`)) {
+        return;
+      }
+
+      const response = await upload(false);
+      const data = await response.json();
+      const emails = data.notifications
+        ? ` · emails sent ${data.notifications.sent}, failed ${data.notifications.failed}`
+        : '';
+      setMessage(response.ok
+        ? { type: 'success', text: `Imported: ${summary}${emails}` }
+        : { type: 'error', text: data.message || 'Import failed' });
+      await loadOrders();
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteOrder = async () => {
+    if (!selectedOrder || !confirm(`Delete tracking data for ${selectedOrder}? Its history is kept.`)) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/order-status?order=${encodeURIComponent(selectedOrder)}`, {
+        method: 'DELETE',
+        headers: staffHeaders()
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: `Order ${selectedOrder} deleted` });
+        setSelectedOrder('');
+        await loadOrders();
+      } else {
+        setMessage({ type: 'error', text: data.message || 'Delete failed' });
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Network error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'text-green-600';
@@ -136,6 +557,14 @@ export default function Dashboard() {
   };
 
   const selectedOrderData = orders.find(o => o.order_number === selectedOrder);
+  const selectedWorkflow = getWorkflow(selectedOrderData?.workflow_id);
+  const canOperate = staff?.role === 'operator' || staff?.role === 'admin';
+  const isAdmin = staff?.role === 'admin';
+  // Only offer statuses every checked order's workflow has
+  const bulkSteps = getWorkflow(orders.find(o => checkedOrders.includes(o.order_number))?.workflow_id).steps
+    .filter(step => orders
+      .filter(o => checkedOrders.includes(o.order_number))
+      .every(o => getWorkflow(o.workflow_id).steps.some(s => s.id === step.id)));
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -154,6 +583,37 @@ export default function Dashboard() {
                 Manage order status - Test Using New API
               </p>
             </div>
+            <div className="ml-auto flex items-center gap-3">
+              {staff?.stores && staff.stores.length > 1 && (
+                <select
+                  value={shop || staff.stores.find(store => store.default)?.shop || ''}
+                  onChange={(e) => handleShopChange(staff.stores!.find(store => store.shop === e.target.value)?.default ? '' : e.target.value)}
+                  aria-label="Store"
+                  className="bg-white border border-gray-300 text-gray-900 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {staff.stores.map(store => (
+                    <option key={store.shop} value={store.shop}>{store.name}</option>
+                  ))}
+                </select>
+              )}
+              {staff && (
+                <span className="text-sm text-gray-600">
+                  {staff.name} <span className="text-xs uppercase tracking-wide text-gray-400">{staff.role}</span>
+                </span>
+              )}
+              <input
+                type="password"
+                value={dashboardKey}
+                onChange={(e) => handleDashboardKeyChange(e.target.value)}
+                onBlur={() => {
+                  loadStaff();
+                  loadOrders();
+                }}
+                placeholder="Dashboard key"
+                aria-label="Dashboard key"
+                className="bg-white border border-gray-300 text-gray-900 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -200,22 +660,54 @@ export default function Dashboard() {
                   disabled={!selectedOrder}
                 >
                   <option value="">Select status...</option>
-                  <option value="upload_photo">Upload photo</option>
-                  <option value="in_progress">In progress</option>
-                  <option value="check_delivery">Check delivery</option>
-                  <option value="check_revision">Check revision</option>
-                  <option value="order_complete">Order complete</option>
+                  {selectedWorkflow.steps.map(step => (
+                    <option
+                      key={step.id}
+                      value={step.id}
+                      disabled={!force && !!selectedOrderData && !canTransition(selectedWorkflow, selectedOrderData.current_status, step.id)}
+                    >
+                      {step.label}
+                    </option>
+                  ))}
                 </select>
               </div>
 
+              {isAdmin && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={force}
+                    onChange={(e) => setForce(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Force transition (skip workflow checks)
+                </label>
+              )}
+
               <button
                 onClick={handleUpdateStatus}
-                disabled={loading || !selectedOrder || !selectedStatus}
+                disabled={loading || !canOperate || !selectedOrder || !selectedStatus}
                 className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-md hover:shadow-lg"
               >
                 {loading ? 'Updating...' : 'Update Status'}
               </button>
 
+              {!canOperate && (
+                <p className="text-xs text-gray-500">
+                  {staff ? 'Viewers can browse orders but not change them.' : 'Enter your dashboard key to make changes.'}
+                </p>
+              )}
+
+              {isAdmin && (
+                <button
+                  onClick={handleDeleteOrder}
+                  disabled={loading || !selectedOrder}
+                  className="w-full bg-white border border-red-300 text-red-600 hover:bg-red-50 disabled:border-gray-200 disabled:text-gray-300 disabled:cursor-not-allowed font-semibold py-2 px-6 rounded-lg transition-all duration-200"
+                >
+                  Delete Order Record
+                </button>
+              )}
+
               {message && (
                 <div className={`p-4 rounded-lg border ${
                   message.type === 'success' 
@@ -239,6 +731,24 @@ export default function Dashboard() {
                   <code className="text-xs text-green-600 break-all font-mono block">
                     GET /api/shopify-orders
                   </code>
+                  <code className="text-xs text-green-600 break-all font-mono block">
+                    GET /api/order-status/history?order=
+                  </code>
+                  <code className="text-xs text-green-600 break-all font-mono block">
+                    GET /api/order-status/token?order=
+                  </code>
+                  <code className="text-xs text-green-600 break-all font-mono block">
+                    GET /api/order-status/stream
+                  </code>
+                  <code className="text-xs text-green-600 break-all font-mono block">
+                    GET /api/order-status/overdue
+                  </code>
+                  <code className="text-xs text-green-600 break-all font-mono block">
+                    GET /api/order-status/analytics
+                  </code>
+                  <code className="text-xs text-green-600 break-all font-mono block">
+                    GET /widget/v1.js
+                  </code>
                 </div>
               </div>
             </div>
@@ -283,6 +793,23 @@ export default function Dashboard() {
                           <span className={`font-medium ${getStatusColor(step.status)}`}>
                             {step.label}
                           </span>
+                          {step.timestamp && (
+                            <span className="text-xs text-gray-500">
+                              {new Date(step.timestamp).toLocaleString()}
+                            </span>
+                          )}
+                          {step.rounds?.map(round => (
+                            <a
+                              key={round.round}
+                              href={round.url || undefined}
+                              target="_blank"
+                              rel="noreferrer"
+                              title={new Date(round.timestamp).toLocaleString()}
+                              className="text-xs font-medium text-purple-700 bg-purple-100 rounded-full px-2 py-0.5"
+                            >
+                              Round {round.round}
+                            </a>
+                          ))}
                         </div>
                         {step.clickable && (
                           <span className="text-xs text-blue-600 font-medium flex items-center gap-1">
@@ -299,10 +826,22 @@ export default function Dashboard() {
 
                 {/* Shopify Preview */}
                 <div>
-                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Shopify Customer View</h3>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-semibold text-gray-700">Shopify Customer View</h3>
+                    <select
+                      aria-label="Preview language"
+                      value={previewLocale}
+                      onChange={(e) => setPreviewLocale(e.target.value)}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white text-gray-900"
+                    >
+                      {SUPPORTED_LOCALES.map(locale => (
+                        <option key={locale} value={locale}>{getLocaleName(locale)}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
                     <div className="space-y-2">
-                      {selectedOrderData.steps.map((step) => (
+                      {(previewSteps ?? selectedOrderData.steps).map((step) => (
                         <div
                           key={step.id}
                           className={`py-2 px-3 rounded transition-colors ${
@@ -332,13 +871,106 @@ export default function Dashboard() {
         {/* All Orders Table */}
         <div className="mt-6 max-w-7xl mx-auto">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-            <div className="px-6 py-4 border-b border-gray-200">
-              <h2 className="text-xl font-semibold text-gray-900">All Orders ({orders.length})</h2>
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                All Orders ({orders.length})
+                {live && (
+                  <span className="inline-flex items-center gap-1 text-xs font-medium text-green-700" title="Receiving live updates">
+                    <span className="w-2 h-2 rounded-full bg-green-500"></span>
+                    Live
+                  </span>
+                )}
+              </h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleExport}
+                  disabled={!staff}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Export CSV
+                </button>
+                {canOperate && (
+                  <label className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer">
+                    Import CSV
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleImport(file);
+                      }}
+                    />
+                  </label>
+                )}
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                  placeholder="Order # or customer"
+                  aria-label="Search orders"
+                  className="bg-white border border-gray-300 text-gray-900 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => pagination?.previous_page_info && goToPage(pagination.previous_page_info)}
+                  disabled={!pagination?.previous_page_info}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => pagination?.next_page_info && goToPage(pagination.next_page_info)}
+                  disabled={!pagination?.next_page_info}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
             </div>
+            {canOperate && checkedOrders.length > 0 && (
+              <div className="px-6 py-3 border-b border-gray-200 bg-blue-50 flex items-center gap-3">
+                <span className="text-sm font-medium text-blue-900">{checkedOrders.length} selected</span>
+                <select
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value)}
+                  aria-label="Bulk status"
+                  className="bg-white border border-gray-300 text-gray-900 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Move to status...</option>
+                  {bulkSteps.map(step => (
+                    <option key={step.id} value={step.id}>{step.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleBulkUpdate}
+                  disabled={loading || !bulkStatus}
+                  className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Updating...' : 'Apply'}
+                </button>
+                <button
+                  onClick={() => setCheckedOrders([])}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-900"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead>
                   <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="py-3 pl-6 w-8">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all orders"
+                        checked={orders.length > 0 && checkedOrders.length === orders.length}
+                        onChange={(e) => setCheckedOrders(e.target.checked ? orders.map(o => o.order_number) : [])}
+                        className="rounded border-gray-300"
+                      />
+                    </th>
                     <th className="text-left py-3 px-6 text-xs font-semibold text-gray-600 uppercase tracking-wider">Order #</th>
                     <th className="text-left py-3 px-6 text-xs font-semibold text-gray-600 uppercase tracking-wider">Order ID</th>
                     <th className="text-left py-3 px-6 text-xs font-semibold text-gray-600 uppercase tracking-wider">Current Status</th>
@@ -350,15 +982,43 @@ export default function Dashboard() {
                     const completed = order.steps.filter(s => s.status === 'completed').length;
                     const total = order.steps.length;
                     const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+                    const sla = getSlaStatus(
+                      getStep(getWorkflow(order.workflow_id), order.current_status),
+                      order.steps.find(s => s.id === order.current_status)?.timestamp
+                    );
+                    const rowClass = sla?.state === 'overdue'
+                      ? 'bg-red-50 hover:bg-red-100'
+                      : sla?.state === 'approaching' ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50';
 
                     return (
-                      <tr key={order.order_number} className="hover:bg-gray-50 transition-colors">
+                      <tr key={order.order_number} className={`${rowClass} transition-colors`}>
+                        <td className="py-4 pl-6 w-8">
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${order.order_number}`}
+                            checked={checkedOrders.includes(order.order_number)}
+                            onChange={() => toggleChecked(order.order_number)}
+                            className="rounded border-gray-300"
+                          />
+                        </td>
                         <td className="py-4 px-6 text-sm font-semibold text-gray-900">{order.order_number}</td>
                         <td className="py-4 px-6 text-sm text-gray-600">{order.order_id}</td>
                         <td className="py-4 px-6">
                           <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                             {order.current_status.replace(/_/g, ' ')}
                           </span>
+                          {sla && sla.state !== 'ok' && (
+                            <span
+                              className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold ${
+                                sla.state === 'overdue' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                              }`}
+                              title={`In this status for ${sla.age_hours}h of a ${sla.sla_hours}h target`}
+                            >
+                              {sla.state === 'overdue'
+                                ? `Overdue ${Math.abs(sla.remaining_hours)}h`
+                                : `Due in ${sla.remaining_hours}h`}
+                            </span>
+                          )}
                         </td>
                         <td className="py-4 px-6">
                           <div className="flex items-center gap-3">
@@ -379,6 +1039,163 @@ export default function Dashboard() {
             </div>
           </div>
         </div>
+
+        {/* Analytics */}
+        {staff && (
+          <div className="mt-6 max-w-7xl mx-auto">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between gap-4 mb-6 flex-wrap">
+                <h2 className="text-xl font-semibold text-gray-900">Analytics</h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <select
+                    aria-label="Workflow"
+                    value={analyticsRange.workflow}
+                    onChange={(e) => setAnalyticsRange({ ...analyticsRange, workflow: e.target.value })}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-gray-900"
+                  >
+                    {WORKFLOWS.map(workflow => (
+                      <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    aria-label="From"
+                    value={analyticsRange.from}
+                    max={analyticsRange.to}
+                    onChange={(e) => e.target.value && setAnalyticsRange({ ...analyticsRange, from: e.target.value })}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-900"
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="date"
+                    aria-label="To"
+                    value={analyticsRange.to}
+                    min={analyticsRange.from}
+                    onChange={(e) => e.target.value && setAnalyticsRange({ ...analyticsRange, to: e.target.value })}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-900"
+                  />
+                </div>
+              </div>
+
+              {analytics ? (
+                <div className="space-y-8">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {[
+                      { label: 'Orders started', value: String(analytics.cohort_orders) },
+                      { label: 'Median turnaround', value: formatHours(analytics.end_to_end.median_hours) },
+                      { label: 'P90 turnaround', value: formatHours(analytics.end_to_end.p90_hours) },
+                      {
+                        label: 'Revision rate',
+                        value: analytics.revisions.rate === null ? '—' : `${Math.round(analytics.revisions.rate * 100)}%`
+                      }
+                    ].map(card => (
+                      <div key={card.label} className="bg-gray-50 rounded-lg p-4">
+                        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{card.label}</p>
+                        <p className="text-2xl font-semibold text-gray-900 mt-1">{card.value}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-8">
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-700 mb-3">Current status ({analytics.total_orders} orders)</h3>
+                      <div className="space-y-2">
+                        {analytics.status_counts.map(row => (
+                          <div key={row.status} className="flex items-center gap-3 text-sm">
+                            <span className="w-36 text-gray-600 truncate">{row.label}</span>
+                            <div className="flex-1 bg-gray-100 rounded h-4">
+                              <div
+                                className="bg-blue-500 h-4 rounded"
+                                style={{ width: `${analytics.total_orders ? (row.count / analytics.total_orders) * 100 : 0}%` }}
+                              ></div>
+                            </div>
+                            <span className="w-10 text-right font-medium text-gray-700">{row.count}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-700 mb-3">Completion funnel</h3>
+                      <div className="space-y-2">
+                        {analytics.funnel.map(row => (
+                          <div key={row.status} className="flex items-center gap-3 text-sm">
+                            <span className="w-36 text-gray-600 truncate">{row.label}</span>
+                            <div className="flex-1 bg-gray-100 rounded h-4">
+                              <div className="bg-purple-500 h-4 rounded" style={{ width: `${row.rate * 100}%` }}></div>
+                            </div>
+                            <span className="w-16 text-right font-medium text-gray-700">
+                              {row.reached} ({Math.round(row.rate * 100)}%)
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-3">Time per stage</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                          <th className="py-2">Stage</th>
+                          <th className="py-2">Visits</th>
+                          <th className="py-2">Median</th>
+                          <th className="py-2">P90</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {analytics.stage_times.map(row => (
+                          <tr key={row.status}>
+                            <td className="py-2 text-gray-700">{row.label}</td>
+                            <td className="py-2 text-gray-600">{row.samples}</td>
+                            <td className="py-2 font-medium text-gray-900">{formatHours(row.median_hours)}</td>
+                            <td className="py-2 text-gray-600">{formatHours(row.p90_hours)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-4">
+                      Daily throughput
+                      <span className="flex items-center gap-1 text-xs font-normal text-gray-500">
+                        <span className="w-3 h-3 rounded-sm bg-blue-300"></span>Started
+                      </span>
+                      <span className="flex items-center gap-1 text-xs font-normal text-gray-500">
+                        <span className="w-3 h-3 rounded-sm bg-green-500"></span>Completed
+                      </span>
+                    </h3>
+                    {(() => {
+                      const peak = Math.max(1, ...analytics.throughput.map(day => Math.max(day.started, day.completed)));
+                      return (
+                        <div className="flex items-end gap-px h-32">
+                          {analytics.throughput.map(day => (
+                            <div
+                              key={day.date}
+                              className="flex-1 flex items-end gap-px h-full"
+                              title={`${day.date}: ${day.started} started, ${day.completed} completed`}
+                            >
+                              <div className="flex-1 bg-blue-300 rounded-t" style={{ height: `${(day.started / peak) * 100}%` }}></div>
+                              <div className="flex-1 bg-green-500 rounded-t" style={{ height: `${(day.completed / peak) * 100}%` }}></div>
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })()}
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>{analytics.range.from}</span>
+                      <span>{analytics.range.to}</span>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Loading analytics…</p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,325 @@
+/**
+ * Bella order status widget, v1. Served by /api/widget/v1.js; no dependencies.
+ *
+ * Include it once and mark where each order should render:
+ *
+ *   <div data-bella-order-status data-order="1001" data-email="{{ order.email }}"></div>
+ *   <script src="https://<api host>/widget/v1.js" async></script>
+ *
+ * `data-token` (a signed link from /api/order-status/token) may replace
+ * `data-email`. Optional: `data-api-base` (defaults to the script's origin),
+ * `data-shop` (the store's myshopify domain, e.g. `{{ shop.permanent_domain }}`,
+ * when the API serves several stores), `data-locale` (step labels in that
+ * language, default the browser's) and `data-heading-level` (2-6, default 2). Themes can also call
+ * `BellaOrderStatus.mount(element, options)` themselves.
+ *
+ * Styling comes from CSS variables on `.bella-os` (see STYLES below), so a
+ * theme only needs to override them, e.g. `.bella-os { --bella-os-accent: #000; }`.
+ */
+(function (window, document) {
+  'use strict';
+
+  if (window.BellaOrderStatus) {
+    return;
+  }
+
+  var VERSION = '1.1.0';
+  var POLL_INTERVAL_MS = 60000;
+  var STYLE_ID = 'bella-os-styles';
+
+  var STYLES = [
+    '.bella-os{',
+    '--bella-os-font:inherit;',
+    '--bella-os-text:#1f2937;',
+    '--bella-os-muted:#6b7280;',
+    '--bella-os-background:transparent;',
+    '--bella-os-border:#e5e7eb;',
+    '--bella-os-complete:#16a34a;',
+    '--bella-os-accent:#2563eb;',
+    '--bella-os-pending:#d1d5db;',
+    '--bella-os-error:#b91c1c;',
+    '--bella-os-radius:8px;',
+    '--bella-os-gap:12px;',
+    'font-family:var(--bella-os-font);color:var(--bella-os-text);background:var(--bella-os-background);',
+    'border:1px solid var(--bella-os-border);border-radius:var(--bella-os-radius);padding:calc(var(--bella-os-gap)*1.5);}',
+    '.bella-os__title{margin:0 0 4px;font-size:1.125em;}',
+    '.bella-os__product{margin:0 0 var(--bella-os-gap);color:var(--bella-os-muted);}',
+    '.bella-os__steps{list-style:none;margin:0;padding:0;}',
+    '.bella-os__step{display:flex;align-items:flex-start;gap:var(--bella-os-gap);padding:calc(var(--bella-os-gap)/2) 0;}',
+    '.bella-os__marker{flex:none;display:inline-flex;align-items:center;justify-content:center;width:1.5em;height:1.5em;',
+    'border-radius:50%;border:2px solid var(--bella-os-pending);font-size:.8em;line-height:1;}',
+    '.bella-os__step--completed .bella-os__marker{background:var(--bella-os-complete);border-color:var(--bella-os-complete);color:#fff;}',
+    '.bella-os__step--in_progress .bella-os__marker{border-color:var(--bella-os-accent);color:var(--bella-os-accent);}',
+    '.bella-os__step--pending .bella-os__label{color:var(--bella-os-muted);}',
+    '.bella-os__step--in_progress .bella-os__label{font-weight:600;}',
+    '.bella-os__link{color:var(--bella-os-accent);}',
+    '.bella-os__rounds{list-style:none;margin:4px 0 0;padding:0;font-size:.9em;}',
+    '.bella-os__message{margin:0;color:var(--bella-os-muted);}',
+    '.bella-os__message--error{color:var(--bella-os-error);}',
+    '.bella-os__sr-only{position:absolute;width:1px;height:1px;padding:0;margin:-1px;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0;}'
+  ].join('');
+
+  var STATE_TEXT = { completed: 'completed', in_progress: 'current step', pending: 'not started' };
+  var MARKERS = { completed: '✓', in_progress: '●', pending: '' };
+
+  var currentScript = document.currentScript;
+  var uid = 0;
+
+  function injectStyles() {
+    if (document.getElementById(STYLE_ID)) {
+      return;
+    }
+    var style = document.createElement('style');
+    style.id = STYLE_ID;
+    style.textContent = STYLES;
+    (document.head || document.documentElement).appendChild(style);
+  }
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined && text !== null) node.textContent = String(text);
+    return node;
+  }
+
+  // Only ever link to http(s) so a bad URL can't become a javascript: link
+  function safeUrl(value) {
+    try {
+      var url = new URL(value, window.location.href);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  function defaultApiBase() {
+    if (currentScript && currentScript.src) {
+      return new URL(currentScript.src).origin;
+    }
+    return window.location.origin;
+  }
+
+  function buildQuery(options) {
+    var orderNumber = String(options.order).charAt(0) === '#' ? String(options.order) : '#' + options.order;
+    var params = ['order=' + encodeURIComponent(orderNumber)];
+    if (options.token) params.push('token=' + encodeURIComponent(options.token));
+    else if (options.email) params.push('email=' + encodeURIComponent(options.email));
+    if (options.shop) params.push('shop=' + encodeURIComponent(options.shop));
+    if (options.locale) params.push('locale=' + encodeURIComponent(options.locale));
+    return params.join('&');
+  }
+
+  function renderStep(step) {
+    var item = el('li', 'bella-os__step bella-os__step--' + step.status);
+    if (step.status === 'in_progress') {
+      item.setAttribute('aria-current', 'step');
+    }
+
+    var marker = el('span', 'bella-os__marker', MARKERS[step.status] || '');
+    marker.setAttribute('aria-hidden', 'true');
+    item.appendChild(marker);
+
+    var body = el('div', 'bella-os__body');
+    var href = step.clickable && step.status !== 'pending' && step.url ? safeUrl(step.url) : null;
+    var label = href ? el('a', 'bella-os__label bella-os__link', step.label) : el('span', 'bella-os__label', step.label);
+    if (href) {
+      label.href = href;
+      label.target = '_blank';
+      label.rel = 'noopener noreferrer';
+    }
+    body.appendChild(label);
+    body.appendChild(el('span', 'bella-os__sr-only', ' (' + (STATE_TEXT[step.status] || step.status) + ')'));
+
+    // Earlier revision rounds stay reachable after a newer one arrives
+    if (step.rounds && step.rounds.length > 1) {
+      var rounds = el('ul', 'bella-os__rounds');
+      rounds.setAttribute('aria-label', step.label + ' rounds');
+      step.rounds.forEach(function (round) {
+        var roundHref = safeUrl(round.url);
+        var roundItem = el('li');
+        var roundLabel = roundHref ? el('a', 'bella-os__link', 'Round ' + round.round) : el('span', null, 'Round ' + round.round);
+        if (roundHref) {
+          roundLabel.href = roundHref;
+          roundLabel.target = '_blank';
+          roundLabel.rel = 'noopener noreferrer';
+        }
+        roundItem.appendChild(roundLabel);
+        rounds.appendChild(roundItem);
+      });
+      body.appendChild(rounds);
+    }
+
+    item.appendChild(body);
+    return item;
+  }
+
+  function mount(container, options) {
+    options = options || {};
+    if (!container || !options.order) {
+      throw new Error('BellaOrderStatus.mount needs an element and an order');
+    }
+
+    injectStyles();
+
+    var apiBase = (options.apiBase || defaultApiBase()).replace(/\/$/, '');
+    var headingLevel = Math.min(Math.max(parseInt(options.headingLevel, 10) || 2, 2), 6);
+    var query = buildQuery(options);
+    var titleId = 'bella-os-title-' + ++uid;
+    var lastStatus = null;
+    var source = null;
+    var pollTimer = null;
+    var destroyed = false;
+
+    var root = el('section', 'bella-os');
+    root.setAttribute('aria-labelledby', titleId);
+    root.setAttribute('aria-busy', 'true');
+    var title = el('h' + headingLevel, 'bella-os__title', 'Order ' + options.order);
+    title.id = titleId;
+    var content = el('div', 'bella-os__content');
+    var live = el('p', 'bella-os__sr-only');
+    live.setAttribute('role', 'status');
+    live.setAttribute('aria-live', 'polite');
+    root.appendChild(title);
+    root.appendChild(content);
+    root.appendChild(live);
+    content.appendChild(el('p', 'bella-os__message', 'Loading order status…'));
+
+    container.innerHTML = '';
+    container.appendChild(root);
+
+    function showMessage(text, isError) {
+      content.innerHTML = '';
+      content.appendChild(el('p', 'bella-os__message' + (isError ? ' bella-os__message--error' : ''), text));
+      root.setAttribute('aria-busy', 'false');
+    }
+
+    function render(order) {
+      title.textContent = 'Order ' + order.order_number;
+      content.innerHTML = '';
+      if (order.product_name) {
+        content.appendChild(el('p', 'bella-os__product', order.product_name));
+      }
+
+      var list = el('ol', 'bella-os__steps');
+      list.setAttribute('aria-label', 'Order progress');
+      (order.steps || []).forEach(function (step) {
+        list.appendChild(renderStep(step));
+      });
+      content.appendChild(list);
+      root.setAttribute('aria-busy', 'false');
+
+      // Announce changes, not the first render
+      if (lastStatus !== null && lastStatus !== order.current_status) {
+        var current = (order.steps || []).filter(function (step) { return step.id === order.current_status; })[0];
+        live.textContent = 'Order status updated: ' + (current ? current.label : order.current_status);
+      }
+      lastStatus = order.current_status;
+
+      var event;
+      try {
+        event = new CustomEvent('bella:order-status', { detail: order, bubbles: true });
+      } catch (error) {
+        event = null;
+      }
+      if (event) container.dispatchEvent(event);
+    }
+
+    function load() {
+      return fetch(apiBase + '/api/order-status?' + query, { headers: { Accept: 'application/json' } })
+        .then(function (response) {
+          return response.json().then(function (data) {
+            if (destroyed) return;
+            if (response.ok) {
+              render(data);
+            } else if (response.status === 404) {
+              showMessage('We’re still setting up tracking for this order. Please check back soon.');
+            } else if (response.status === 401 || response.status === 403) {
+              showMessage('We couldn’t verify this order.', true);
+            } else {
+              showMessage('Order status is temporarily unavailable.', true);
+            }
+          });
+        })
+        .catch(function () {
+          if (!destroyed) showMessage('Order status is temporarily unavailable.', true);
+        });
+    }
+
+    function poll() {
+      if (!pollTimer) {
+        pollTimer = window.setInterval(load, POLL_INTERVAL_MS);
+      }
+    }
+
+    // EventSource reconnects (with Last-Event-ID) whenever the server ends a
+    // response; polling only takes over where it isn't available
+    function subscribe() {
+      if (!window.EventSource) {
+        poll();
+        return;
+      }
+      source = new window.EventSource(apiBase + '/api/order-status/stream?' + query);
+      source.addEventListener('order', function (message) {
+        try {
+          render(JSON.parse(message.data));
+        } catch (error) {
+          load();
+        }
+      });
+      source.addEventListener('order_deleted', function () {
+        showMessage('Tracking is no longer available for this order.');
+      });
+      source.addEventListener('error', function () {
+        // CLOSED means the browser gave up, e.g. after a 4xx
+        if (source && source.readyState === window.EventSource.CLOSED) {
+          source = null;
+          poll();
+        }
+      });
+    }
+
+    load().then(function () {
+      if (!destroyed) subscribe();
+    });
+
+    return {
+      refresh: load,
+      destroy: function () {
+        destroyed = true;
+        if (source) source.close();
+        if (pollTimer) window.clearInterval(pollTimer);
+        container.innerHTML = '';
+      }
+    };
+  }
+
+  function optionsFrom(node) {
+    return {
+      order: node.getAttribute('data-order'),
+      email: node.getAttribute('data-email'),
+      token: node.getAttribute('data-token'),
+      apiBase: node.getAttribute('data-api-base'),
+      shop: node.getAttribute('data-shop'),
+      locale: node.getAttribute('data-locale'),
+      headingLevel: node.getAttribute('data-heading-level')
+    };
+  }
+
+  function autoMount() {
+    var nodes = document.querySelectorAll('[data-bella-order-status]');
+    for (var i = 0; i < nodes.length; i++) {
+      if (!nodes[i].getAttribute('data-bella-mounted') && nodes[i].getAttribute('data-order')) {
+        nodes[i].setAttribute('data-bella-mounted', 'true');
+        mount(nodes[i], optionsFrom(nodes[i]));
+      }
+    }
+  }
+
+  window.BellaOrderStatus = { version: VERSION, mount: mount };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', autoMount);
+  } else {
+    autoMount();
+  }
+})(window, document);